@@ -5,8 +5,9 @@ import { createInterface } from "node:readline";
 import { createGunzip } from "node:zlib";
 import { Queue } from "../src/Queue";
 import { Table } from "../src/Table";
-import { OrderedColumn } from "../src/Column";
-import { MemoryStore } from "../src/Store";
+import { FileStore } from "../src/FileStore";
+import { CompressedStore, createBrotliCodec } from "../src/CompressedStore";
+import { QueueStore } from "../src/QueueStore";
 
 /* -------------------------------------------------------------------------- */
 /*                               Type helpers                                 */
@@ -103,10 +104,16 @@ const readDataFiles = async (dataDir: string): Promise<string[]> => {
   return files;
 };
 
+// The table is created from the first batch, so a new table is bulk loaded
+interface TableTarget {
+  table?: Table<number>;
+  create: (sortedRows: FlattenedRow[]) => Promise<Table<number>>;
+}
+
 const processFile = async (
   file: string,
   schema: SchemaDefinition,
-  table: Table<number>,
+  target: TableTarget,
   batchSize: number,
   maxRecords?: number,
 ): Promise<number> => {
@@ -124,9 +131,10 @@ const processFile = async (
       (a, b) => (a.data_timestamp as number) - (b.data_timestamp as number),
     );
 
-    await table.insert(batch);
+    if (target.table) await target.table.insert(batch);
+    else target.table = await target.create(batch);
     // Commit after each batch to avoid growing dirty state and to persist chunks incrementally
-    await table.flush("ingest.meta");
+    await target.table.flush("ingest.meta");
 
     // Performance metrics
     const now = Date.now();
@@ -163,7 +171,7 @@ const processFile = async (
 
 interface IngestOptions {
   dataDir: string;
-  table: Table<number>;
+  target: TableTarget;
   batchSize: number;
   maxFiles?: number;
   maxRecordsPerFile?: number;
@@ -181,7 +189,7 @@ const ingest = async (opts: IngestOptions): Promise<void> => {
     total += await processFile(
       file,
       schema,
-      opts.table,
+      opts.target,
       opts.batchSize,
       opts.maxRecordsPerFile,
     );
@@ -205,25 +213,27 @@ async function main() {
   // or VALKEY_URL if provided - see getRedisClient() for details
   console.log(`Using store directory: ${storeDir}`);
 
-  // const queue = new Queue(32);
+  const queue = new Queue(32);
   // // const redisStore = new RedisStore().withPrefix(
   // // 	`data/ingest-${Date.now()}`,
   // // );
-  // // const fileStore = new FileStore(storeDir);
-  // // const brotliStore = new BrotliStore(fileStore);
-  // // const queueStore = new QueueStore(brotliStore, queue);
-  const store = new MemoryStore();
-  const table = new Table<number>(
-    store,
-    {
-      key: sortColumn,
-      column: new OrderedColumn<number>(store, { segmentCount: 8096, chunkCount: 200_000 }),
-    },
-    /* columns */ undefined,
-    /* opts for non-order columns */ { segmentCount: 8096, chunkCount: 200_000 },
-  );
+  const fileStore = await FileStore.open(storeDir);
+  const brotliStore = new CompressedStore(fileStore, {
+    codec: createBrotliCodec(),
+    skipMeta: true,
+  });
+  const store = new QueueStore(brotliStore, queue);
+  const tableOpts = { segmentCount: 8096, chunkCount: 200_000, codec: "binary" };
+  const target: TableTarget = {
+    create: (rows) => Table.fromSortedRows<number>(store, sortColumn, rows, tableOpts),
+  };
 
-  await ingest({ dataDir, table, batchSize: 100_000 });
+  await ingest({ dataDir, target, batchSize: 100_000 });
+
+  const stats = brotliStore.getStats();
+  console.log(
+    `Compressed ${stats.rawBytes} -> ${stats.storedBytes} bytes (saved ${stats.savedBytes}).`,
+  );
 }
 
 main().catch((err) => {
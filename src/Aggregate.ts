@@ -0,0 +1,92 @@
+/**
+ * Metric computed per group by `Table.aggregate`. `count` without a column
+ * counts rows; every other metric skips missing values. `sum` and `avg` only
+ * see numbers, `min`/`max` compare with `<`/`>`.
+ */
+export type Metric =
+  | { op: "count"; column?: string }
+  | { op: "sum" | "min" | "max" | "avg" | "countDistinct"; column: string };
+
+export type MetricValue = number | string | undefined;
+
+/** Running state of one metric; values are fed one at a time. */
+export interface Accumulator {
+  add(value: unknown): void;
+  result(): MetricValue;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+export function createAccumulator(metric: Metric): Accumulator {
+  switch (metric.op) {
+    case "count": {
+      let count = 0;
+      const rows = metric.column === undefined;
+      return {
+        add: (v) => {
+          if (rows || !isMissing(v)) count++;
+        },
+        result: () => count,
+      };
+    }
+    case "sum":
+    case "avg": {
+      let sum = 0;
+      let count = 0;
+      return {
+        add: (v) => {
+          if (typeof v !== "number") return;
+          sum += v;
+          count++;
+        },
+        result: () => (metric.op === "sum" ? sum : count > 0 ? sum / count : undefined),
+      };
+    }
+    case "min":
+    case "max": {
+      let best: number | string | undefined;
+      const min = metric.op === "min";
+      return {
+        add: (v) => {
+          if (isMissing(v)) return;
+          const value = v as number | string;
+          if (best === undefined || (min ? value < best : value > best)) best = value;
+        },
+        result: () => best,
+      };
+    }
+    case "countDistinct": {
+      const seen = new Set<unknown>();
+      return {
+        add: (v) => {
+          if (!isMissing(v)) seen.add(v);
+        },
+        result: () => seen.size,
+      };
+    }
+  }
+}
+
+/** Columns read by the metrics; row counts read none. */
+export function metricColumns(metrics: Record<string, Metric>, out = new Set<string>()): Set<string> {
+  for (const metric of Object.values(metrics)) {
+    if (metric.column !== undefined) out.add(metric.column);
+  }
+  return out;
+}
+
+/** Orders group keys element by element, missing values first. */
+export function compareGroupKeys(a: unknown[], b: unknown[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === y) continue;
+    if (isMissing(x)) return isMissing(y) ? 0 : -1;
+    if (isMissing(y)) return 1;
+    if ((x as number) < (y as number)) return -1;
+    if ((x as number) > (y as number)) return 1;
+  }
+  return a.length - b.length;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "bun:test";
+import { binaryChunkCodec, getChunkCodec, jsonChunkCodec } from "./ChunkCodec";
+import { MemoryStore } from "./Store";
+import { FenwickList } from "./FenwickList";
+import { FenwickOrderedList } from "./FenwickOrderedList";
+import { Table } from "./Table";
+import { OrderedColumn } from "./Column";
+
+describe("ChunkCodec", () => {
+  it("binary codec round-trips numeric, string, empty and mixed segments", () => {
+    const chunk: unknown[][] = [
+      [1.5, -0, Number.NaN, 1e300, undefined, 42],
+      ["a", "", undefined, "héllo ✓", "zz"],
+      [],
+      [1, "x", { a: 1 }, undefined],
+      [undefined, undefined],
+    ];
+    const encoded = binaryChunkCodec.encode(chunk);
+    expect(encoded).toBeInstanceOf(Uint8Array);
+    const decoded = binaryChunkCodec.decode<unknown>(encoded);
+    expect(decoded).toEqual(chunk);
+    expect(Object.is(decoded[0]![1], -0)).toBe(true);
+  });
+
+  it("binary numbers take ~8 bytes per value", () => {
+    const values = Array.from({ length: 1000 }, (_, i) => 1_700_000_000_000 + i * 17);
+    const encoded = binaryChunkCodec.encode([values]) as Uint8Array;
+    expect(encoded.byteLength).toBeLessThan(values.length * 8 + 200);
+    expect(encoded.byteLength).toBeLessThan(JSON.stringify([values]).length);
+  });
+
+  it("decodes from views at odd byte offsets", () => {
+    const encoded = binaryChunkCodec.encode<unknown>([[1, 2, 3], ["x", "y"]]) as Uint8Array;
+    const padded = new Uint8Array(encoded.length + 3);
+    padded.set(encoded, 3);
+    expect(binaryChunkCodec.decode<unknown>(padded.subarray(3))).toEqual([[1, 2, 3], ["x", "y"]]);
+  });
+
+  it("every codec reads chunks written by any other", () => {
+    const chunk = [[1, 2], [3]];
+    expect(binaryChunkCodec.decode<number>(jsonChunkCodec.encode(chunk))).toEqual(chunk);
+    expect(jsonChunkCodec.decode<number>(binaryChunkCodec.encode(chunk))).toEqual(chunk);
+  });
+
+  it("resolves ids and rejects unknown ones", () => {
+    expect(getChunkCodec(undefined)).toBe(jsonChunkCodec);
+    expect(getChunkCodec("binary")).toBe(binaryChunkCodec);
+    expect(() => getChunkCodec("zstd")).toThrow('Unknown chunk codec "zstd"');
+  });
+});
+
+describe("FenwickBase with binary chunks", () => {
+  it("persists and reloads lists and ordered lists", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<string>(store, { segmentCount: 4, chunkCount: 2, codec: "binary" });
+    for (let i = 0; i < 20; i++) await list.insertAt(i, `v${i}`);
+    const keys = await list.flush();
+    expect(await store.get(keys[0]!)).toBeInstanceOf(Uint8Array);
+    const reloaded = new FenwickList<string>(store, list.getMeta());
+    expect(await reloaded.range(0, 20)).toEqual(Array.from({ length: 20 }, (_, i) => `v${i}`));
+
+    const ordered = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2, codec: "binary" });
+    for (const v of [5, 3, 9, 1, 7, 2, 8]) await ordered.insert(v);
+    await ordered.flush();
+    const ordered2 = new FenwickOrderedList<number>(store, ordered.getMeta());
+    expect(await ordered2.scan(2, 8)).toEqual([2, 3, 5, 7]);
+  });
+
+  it("loads existing JSON chunks after switching a column to binary", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 1 });
+    for (let i = 0; i < 12; i++) await list.insertAt(i, i);
+    await list.flush();
+    const legacyKey = list.getMeta().chunks[0]!;
+    expect(Array.isArray(await store.get(legacyKey))).toBe(true);
+
+    const switched = new FenwickList<number>(store, { ...structuredClone(list.getMeta()), codec: "binary" });
+    expect(await switched.range(0, 12)).toEqual(Array.from({ length: 12 }, (_, i) => i));
+    await switched.insertAt(12, 12);
+    await switched.flush();
+    const again = new FenwickList<number>(store, switched.getMeta());
+    expect(await again.range(0, 13)).toEqual(Array.from({ length: 13 }, (_, i) => i));
+  });
+
+  it("Table passes its codec to new columns and keeps missing values", async () => {
+    const store = new MemoryStore();
+    const opts = { segmentCount: 4, chunkCount: 2, codec: "binary" };
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, opts) },
+      undefined,
+      opts,
+    );
+    await table.insert([
+      { id: 2, name: "b", score: 2 },
+      { id: 1, name: "a" },
+    ]);
+    await table.flush("t.meta");
+    const meta = table.getMeta();
+    expect(meta.defaults.codec).toBe("binary");
+    expect(meta.columns.string["name"]?.codec).toBe("binary");
+    const reloaded = new Table<number>(store, meta);
+    expect(await reloaded.range(0)).toEqual([
+      { id: 1, name: "a" },
+      { id: 2, name: "b", score: 2 },
+    ]);
+  });
+});
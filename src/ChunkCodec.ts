@@ -0,0 +1,230 @@
+import { decodeValue, encodeValue } from "./Serialize";
+
+/**
+ * Converts a chunk (one array per segment) to the value handed to the store
+ * and back. Decoding sniffs the stored shape, so every codec can read chunks
+ * written by any other codec (e.g. legacy JSON chunks after switching to binary).
+ */
+export interface ChunkCodec {
+  id: string;
+  encode<T>(chunk: T[][]): unknown;
+  decode<T>(stored: unknown): T[][];
+}
+
+const FORMAT_VERSION = 1;
+
+const enum SegmentKind {
+  Empty = 0,
+  Number = 1,
+  String = 2,
+  // Mixed or non-primitive values
+  Json = 3,
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function decodeChunk<T>(stored: unknown): T[][] {
+  if (Array.isArray(stored)) return stored as T[][];
+  if (stored instanceof Uint8Array) return decodeBinaryChunk(stored) as T[][];
+  return [];
+}
+
+/** Stores chunks as plain nested arrays (the original format). */
+export const jsonChunkCodec: ChunkCodec = {
+  id: "json",
+  encode: (chunk) => chunk,
+  decode: decodeChunk,
+};
+
+/**
+ * Packs each segment into a typed buffer: numbers as a Float64Array, strings
+ * as UTF-8 bytes with offset and length buffers. Both carry a presence bitmap,
+ * so `undefined` (and `null`, which decodes as undefined) costs one bit.
+ * Segments mixing types fall back to JSON.
+ */
+export const binaryChunkCodec: ChunkCodec = {
+  id: "binary",
+  encode: (chunk) => encodeBinaryChunk(chunk as unknown[][]),
+  decode: decodeChunk,
+};
+
+const codecs = new Map<string, ChunkCodec>([
+  [jsonChunkCodec.id, jsonChunkCodec],
+  [binaryChunkCodec.id, binaryChunkCodec],
+]);
+
+/** Resolves a codec id from meta; a missing id means the legacy JSON format. */
+export function getChunkCodec(id: string | undefined): ChunkCodec {
+  const codec = codecs.get(id ?? jsonChunkCodec.id);
+  if (!codec) throw new Error(`Unknown chunk codec "${id}"`);
+  return codec;
+}
+
+// ---- binary layout ----
+// u8 version | u32 segments | per segment: u8 kind | u32 length | payload
+// Number payload: bitmap | pad to 8 | f64[length]
+// String payload: bitmap | pad to 4 | u32 offsets[length] | u32 lengths[length] | u32 byteLength | utf8
+// Json payload:   u32 byteLength | encodeValue bytes
+
+type EncodedSegment =
+  | { kind: SegmentKind.Empty }
+  | { kind: SegmentKind.Number; values: unknown[] }
+  | { kind: SegmentKind.String; values: unknown[]; utf8: Uint8Array[]; byteLength: number }
+  | { kind: SegmentKind.Json; values: unknown[]; bytes: Uint8Array };
+
+function classify(values: unknown[]): EncodedSegment {
+  if (values.length === 0) return { kind: SegmentKind.Empty };
+  let numbers = true;
+  let strings = true;
+  for (const v of values) {
+    if (v === undefined || v === null) continue;
+    if (typeof v !== "number") numbers = false;
+    if (typeof v !== "string") strings = false;
+    if (!numbers && !strings) break;
+  }
+  if (numbers) return { kind: SegmentKind.Number, values };
+  if (strings) {
+    const utf8 = values.map((v) => (typeof v === "string" ? textEncoder.encode(v) : new Uint8Array(0)));
+    const byteLength = utf8.reduce((sum, b) => sum + b.length, 0);
+    return { kind: SegmentKind.String, values, utf8, byteLength };
+  }
+  return { kind: SegmentKind.Json, values, bytes: encodeValue(values) };
+}
+
+function align(offset: number, to: number): number {
+  return Math.ceil(offset / to) * to;
+}
+
+function bitmapBytes(n: number): number {
+  return Math.ceil(n / 8);
+}
+
+function segmentSize(start: number, seg: EncodedSegment): number {
+  let off = start + 5;
+  switch (seg.kind) {
+    case SegmentKind.Empty:
+      return off;
+    case SegmentKind.Number:
+      off = align(off + bitmapBytes(seg.values.length), 8);
+      return off + seg.values.length * 8;
+    case SegmentKind.String:
+      off = align(off + bitmapBytes(seg.values.length), 4);
+      return off + seg.values.length * 8 + 4 + seg.byteLength;
+    case SegmentKind.Json:
+      return off + 4 + seg.bytes.length;
+  }
+}
+
+function encodeBinaryChunk(chunk: unknown[][]): Uint8Array {
+  const segments = chunk.map((values) => classify(values ?? []));
+  let size = 5;
+  for (const seg of segments) size = segmentSize(size, seg);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  view.setUint8(0, FORMAT_VERSION);
+  view.setUint32(1, segments.length, true);
+  let off = 5;
+  for (const seg of segments) {
+    const length = seg.kind === SegmentKind.Empty ? 0 : seg.values.length;
+    view.setUint8(off, seg.kind);
+    view.setUint32(off + 1, length, true);
+    off += 5;
+    if (seg.kind === SegmentKind.Empty) continue;
+    if (seg.kind === SegmentKind.Json) {
+      view.setUint32(off, seg.bytes.length, true);
+      out.set(seg.bytes, off + 4);
+      off += 4 + seg.bytes.length;
+      continue;
+    }
+    // Presence bitmap: bit set when the value is defined
+    for (let i = 0; i < length; i++) {
+      const v = seg.values[i];
+      if (v !== undefined && v !== null) out[off + (i >>> 3)]! |= 1 << (i & 7);
+    }
+    off += bitmapBytes(length);
+    if (seg.kind === SegmentKind.Number) {
+      off = align(off, 8);
+      for (let i = 0; i < length; i++) {
+        const v = seg.values[i];
+        view.setFloat64(off + i * 8, typeof v === "number" ? v : 0, true);
+      }
+      off += length * 8;
+      continue;
+    }
+    off = align(off, 4);
+    const offsetsAt = off;
+    const lengthsAt = off + length * 4;
+    const dataAt = lengthsAt + length * 4 + 4;
+    view.setUint32(dataAt - 4, seg.byteLength, true);
+    let cursor = 0;
+    for (let i = 0; i < length; i++) {
+      const bytes = seg.utf8[i] as Uint8Array;
+      view.setUint32(offsetsAt + i * 4, cursor, true);
+      view.setUint32(lengthsAt + i * 4, bytes.length, true);
+      out.set(bytes, dataAt + cursor);
+      cursor += bytes.length;
+    }
+    off = dataAt + seg.byteLength;
+  }
+  return out;
+}
+
+function decodeBinaryChunk(bytes: Uint8Array): unknown[][] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(0);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported binary chunk version ${version}`);
+  }
+  const count = view.getUint32(1, true);
+  const chunk: unknown[][] = new Array(count);
+  let off = 5;
+  for (let s = 0; s < count; s++) {
+    const kind = view.getUint8(off) as SegmentKind;
+    const length = view.getUint32(off + 1, true);
+    off += 5;
+    if (kind === SegmentKind.Empty) {
+      chunk[s] = [];
+      continue;
+    }
+    if (kind === SegmentKind.Json) {
+      const byteLength = view.getUint32(off, true);
+      chunk[s] = decodeValue(bytes.subarray(off + 4, off + 4 + byteLength)) as unknown[];
+      off += 4 + byteLength;
+      continue;
+    }
+    const bitmapAt = off;
+    const present = (i: number) => (bytes[bitmapAt + (i >>> 3)]! & (1 << (i & 7))) !== 0;
+    off += bitmapBytes(length);
+    const values: unknown[] = new Array(length);
+    if (kind === SegmentKind.Number) {
+      off = align(off, 8);
+      // Copy into an aligned buffer; the source view may sit at any byteOffset
+      const raw = new Uint8Array(length * 8);
+      raw.set(bytes.subarray(off, off + length * 8));
+      const floats = new Float64Array(raw.buffer);
+      for (let i = 0; i < length; i++) values[i] = present(i) ? floats[i] : undefined;
+      off += length * 8;
+    } else if (kind === SegmentKind.String) {
+      off = align(off, 4);
+      const offsetsAt = off;
+      const lengthsAt = off + length * 4;
+      const dataAt = lengthsAt + length * 4 + 4;
+      const byteLength = view.getUint32(dataAt - 4, true);
+      for (let i = 0; i < length; i++) {
+        if (!present(i)) {
+          values[i] = undefined;
+          continue;
+        }
+        const start = dataAt + view.getUint32(offsetsAt + i * 4, true);
+        const len = view.getUint32(lengthsAt + i * 4, true);
+        values[i] = textDecoder.decode(bytes.subarray(start, start + len));
+      }
+      off = dataAt + byteLength;
+    } else {
+      throw new Error(`Unknown binary segment kind ${kind}`);
+    }
+    chunk[s] = values;
+  }
+  return chunk;
+}
@@ -1,22 +1,10 @@
 import { describe, it, expect } from "bun:test";
 import { MemoryStore } from "./Store";
 import { FenwickList } from "./FenwickList";
+import { FenwickOrderedList } from "./FenwickOrderedList";
 
 class TestFenwickList<T> extends FenwickList<T> {
   // Expose helpers for tests via any-casts to protected internals
-  setValueByIndex(index: number, value: T): void {
-    const { segIndex, localIndex } = (this as any).findByIndex(index) as {
-      segIndex: number;
-      localIndex: number;
-    };
-    const seg = this.getMeta().segments[segIndex] as unknown as {
-      count: number;
-    };
-    const arr = (this as any).getOrCreateArraySync(seg, true) as T[];
-    arr[localIndex] = value;
-    (this as any).dirty.add(seg);
-  }
-
   pushToSegment(segIndex: number, value: T): void {
     const seg = this.getMeta().segments[segIndex] as unknown as {
       count: number;
@@ -46,7 +34,7 @@ describe("Chunks and Copy-on-Write persistence", () => {
     const before = [...list.getMeta().chunks];
 
     // Modify an element in the first segment (chunk 0)
-    list.setValueByIndex(0, -1);
+    await list.setAt(0, -1);
     await list.flush();
     const after = [...list.getMeta().chunks];
 
@@ -94,4 +82,66 @@ describe("Chunks and Copy-on-Write persistence", () => {
     expect(c2[0]).toEqual([4, 5, 100]);
     expect(c2[1]).toEqual([6, 7, 200]);
   });
+
+  it("keeps later segments readable after a mid-list split and reload", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    const model = Array.from({ length: 32 }, (_, i) => i);
+    await list.insertManyAt(model.map((_, i) => i), model);
+    await list.flush();
+    const before = [...list.getMeta().chunks];
+
+    let current = new FenwickList<number>(store, structuredClone(list.getMeta()));
+    // Fill the second segment so it splits and every later segment shifts
+    for (const at of [5, 5, 5]) {
+      await current.insertAt(at, -at);
+      model.splice(at, 0, -at);
+    }
+    const written = await current.flush();
+    const after = current.getMeta().chunks;
+    // Only the chunk of the split segment and the one taking the new half change
+    expect(written.length).toBeLessThanOrEqual(2);
+    expect(after.filter((key) => before.includes(key)).length).toBeGreaterThanOrEqual(before.length - 1);
+
+    current = new FenwickList<number>(store, structuredClone(current.getMeta()));
+    expect(await current.range(0, model.length)).toEqual(model);
+  });
+
+  it("ordered lists survive splits between reloads", async () => {
+    const store = new MemoryStore();
+    let list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    const model: number[] = [];
+    for (let round = 0; round < 4; round++) {
+      for (let i = 0; i < 10; i++) {
+        const v = (i * 37 + round * 11) % 97;
+        await list.insert(v);
+        model.push(v);
+      }
+      await list.flush();
+      list = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+      model.sort((a, b) => a - b);
+      expect(await list.range(0, model.length)).toEqual(model);
+    }
+  });
+
+  it("reads metas written with the positional chunk layout", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    for (let i = 0; i < 16; i++) await list.insertAt(i, i);
+    await list.flush();
+    const legacy = structuredClone(list.getMeta());
+    legacy.segments = legacy.segments.map(({ count }) => ({ count }));
+    delete legacy.chunkSegments;
+    delete legacy.nextSegmentId;
+
+    const reloaded = new FenwickList<number>(store, legacy);
+    const n = legacy.segments.length;
+    expect(reloaded.getMeta().chunkSegments).toEqual(
+      Array.from({ length: Math.ceil(n / 2) }, (_, c) => [2 * c, 2 * c + 1].filter((id) => id < n)),
+    );
+    await reloaded.insertAt(1, 100);
+    await reloaded.flush();
+    const again = new FenwickList<number>(store, structuredClone(reloaded.getMeta()));
+    expect(await again.range(0, 17)).toEqual([0, 100, ...Array.from({ length: 15 }, (_, i) => i + 1)]);
+  });
 });
@@ -1,28 +1,67 @@
-import { FenwickOrderedList } from "./FenwickOrderedList";
-import { FenwickList } from "./FenwickList";
-import type { FenwickBaseMeta, BaseSegment } from "./FenwickBase";
+import { FenwickOrderedList, type ScanOptions, type UniqueMode } from "./FenwickOrderedList";
+import { FenwickList, type RangeAggregate, type SegmentStats } from "./FenwickList";
+import type {
+  FenwickBaseMeta,
+  BaseSegment,
+  CacheLimits,
+  CacheStats,
+  CompactOptions,
+  CompactResult,
+} from "./FenwickBase";
 
 export interface IndexedColumnInterface<T> {
   insertAt(index: number, value: T): Promise<void>;
   insertManyAt(indexes: number[], values: Array<T | undefined>): Promise<void>;
+  bulkLoad(values: T[]): Promise<void>;
+  setAt(index: number, value: T): Promise<void>;
+  setManyAt(indexes: number[], values: Array<T | undefined>): Promise<void>;
+  removeAt(index: number): Promise<T | undefined>;
+  removeRange(min: number, max: number): Promise<number>;
   range(min: number, max: number): Promise<T[]>;
+  iterate(min?: number, max?: number): AsyncGenerator<T[]>;
+  aggregate(min: number, max: number): Promise<RangeAggregate>;
+  rangeStats(min: number, max: number): SegmentStats<T> | undefined;
   get(index: number): Promise<T | undefined>;
   length(): number;
   flush(): Promise<string[]>;
+  compact(opts?: CompactOptions): Promise<CompactResult>;
   getMeta(): FenwickBaseMeta<T, BaseSegment<T>>;
   setMeta(meta: FenwickBaseMeta<T, BaseSegment<T>>): void;
+  setCacheLimits?(limits: CacheLimits): void;
+  getCacheStats?(): CacheStats;
 }
 
 export interface OrderedColumnInterface<T> {
   insert(value: T): Promise<number>;
+  insertMany(values: T[]): Promise<number[]>;
+  uniqueMode(): UniqueMode | undefined;
+  compare(a: T, b: T): number;
+  indexOf(value: T): Promise<number>;
+  bulkLoad(values: T[]): Promise<void>;
+  remove(value: T): Promise<boolean>;
+  removeRange(min: T, max: T): Promise<number>;
   range(min: number, max: number): Promise<T[]>;
-  scan(min: T, max: T): Promise<T[]>;
+  iterate(min?: number, max?: number): AsyncGenerator<T[]>;
+  scan(min: T | undefined, max: T | undefined, opts?: ScanOptions): Promise<T[]>;
+  scanIter(min: T | undefined, max: T | undefined, opts?: ScanOptions): AsyncGenerator<T[]>;
+  scanBounds(
+    min: T | undefined,
+    max: T | undefined,
+    opts?: ScanOptions,
+  ): Promise<{ start: number; end: number }>;
   get(index: number): Promise<T | undefined>;
   getIndex(value: T): Promise<number>;
+  upperBound(value: T): Promise<number>;
+  count(min: T, max: T): Promise<number>;
+  quantile(q: number): Promise<T | undefined>;
+  median(): Promise<T | undefined>;
   length(): number;
   flush(): Promise<string[]>;
+  compact(opts?: CompactOptions): Promise<CompactResult>;
   getMeta(): FenwickBaseMeta<T, BaseSegment<T> & { min: T; max: T }>;
   setMeta(meta: FenwickBaseMeta<T, BaseSegment<T> & { min: T; max: T }>): void;
+  setCacheLimits?(limits: CacheLimits): void;
+  getCacheStats?(): CacheStats;
 }
 
 export const IndexedColumn = FenwickList;
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import { getComparator, prefixEnd, registerComparator } from "./Comparator";
+import { MemoryStore } from "./Store";
+import { FenwickOrderedList } from "./FenwickOrderedList";
+import { Table } from "./Table";
+
+describe("Comparator registry", () => {
+  it("sorts with the built-in comparators", () => {
+    const sort = <T>(name: string, values: T[]) => [...values].sort(getComparator<T>(name));
+    expect(sort("numeric-asc", [3, 1, 2])).toEqual([1, 2, 3]);
+    expect(sort("numeric-desc", [3, 1, 2])).toEqual([3, 2, 1]);
+    expect(sort("string-binary", ["b", "B", "a"])).toEqual(["B", "a", "b"]);
+    expect(sort("string-locale", ["b", "B", "a"])).toEqual(["a", "b", "B"]);
+    expect(sort("string-numeric", ["f10", "f2", "f1"])).toEqual(["f1", "f2", "f10"]);
+    expect(getComparator(undefined)(1, 2)).toBe(-1);
+  });
+
+  it("orders tuples lexicographically with prefixes before their extensions", () => {
+    const cmp = getComparator<unknown[]>("tuple");
+    const sorted = [[2, "a"], [1, "b"], [1, "a"], [1], [2]].sort(cmp);
+    expect(sorted).toEqual([[1], [1, "a"], [1, "b"], [2], [2, "a"]]);
+    expect(cmp([1, "zzz"], prefixEnd([1]))).toBe(-1);
+    expect(cmp([2], prefixEnd([1]))).toBe(1);
+  });
+
+  it("rejects unknown names and conflicting registrations", () => {
+    expect(() => getComparator("nope")).toThrow('Unknown comparator "nope"');
+    const byLength = (a: string, b: string) => a.length - b.length;
+    registerComparator("test-length", byLength);
+    registerComparator("test-length", byLength);
+    expect(() => registerComparator("test-length", (a: string, b: string) => b.length - a.length)).toThrow(
+      "already registered",
+    );
+    expect(getComparator<string>("test-length")("aa", "b")).toBe(1);
+  });
+});
+
+describe("Persisted comparators", () => {
+  it("ordered lists record the comparator name and reload with it", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2 }, "numeric-desc");
+    for (const v of [5, 1, 9, 3, 7]) await list.insert(v);
+    await list.flush();
+    const meta = structuredClone(list.getMeta());
+    expect((meta as { comparator?: string }).comparator).toBe("numeric-desc");
+
+    const reloaded = new FenwickOrderedList<number>(store, meta);
+    await reloaded.insert(4);
+    expect(await reloaded.range(0, 6)).toEqual([9, 7, 5, 4, 3, 1]);
+  });
+
+  it("tables keep their order across reloads and refuse unknown comparators", async () => {
+    const store = new MemoryStore();
+    const table = await Table.fromSortedRows<string>(
+      store,
+      "name",
+      [{ name: "file1" }, { name: "file2" }, { name: "file10" }],
+      { segmentCount: 4, chunkCount: 2, comparator: "string-numeric" },
+    );
+    await table.flush("t.meta");
+    expect(table.getMeta().order.comparator).toBe("string-numeric");
+
+    const reloaded = (await Table.load<string>(store, "t.meta"))!;
+    await reloaded.insert([{ name: "file3" }]);
+    expect((await reloaded.range(0)).map((r) => r.name)).toEqual(["file1", "file2", "file3", "file10"]);
+
+    const meta = structuredClone(reloaded.getMeta());
+    meta.order.comparator = "klingon";
+    expect(() => new Table<string>(store, meta)).toThrow('Unknown comparator "klingon"');
+  });
+});
+
+describe("Composite order keys", () => {
+  it("ordered lists scan tuples by full and prefix bounds", async () => {
+    const list = new FenwickOrderedList<[number, string]>(
+      new MemoryStore(),
+      { segmentCount: 4, chunkCount: 2 },
+      "tuple",
+    );
+    for (const t of [10, 20, 10, 30, 20, 10]) {
+      for (const id of ["b", "a"]) await list.insert([t, `${id}${t}`]);
+    }
+    const all = await list.range(0, list.length());
+    expect(all.slice(0, 4)).toEqual([[10, "a10"], [10, "a10"], [10, "a10"], [10, "b10"]]);
+    const prefix = (v: unknown[]) => v as unknown as [number, string];
+    expect((await list.scan(prefix([20]), prefix([30]))).length).toBe(4);
+    expect(await list.scan(prefix([20, "b"]), prefix(prefixEnd([20])))).toEqual([
+      [20, "b20"],
+      [20, "b20"],
+    ]);
+  });
+
+  it("tables order rows by a composite key deterministically", async () => {
+    const store = new MemoryStore();
+    const rows = [
+      { time: 2, tenant: "x", v: 1 },
+      { time: 1, tenant: "y", v: 2 },
+      { time: 1, tenant: "x", v: 3 },
+      { time: 2, tenant: "a", v: 4 },
+    ];
+    const table = await Table.fromSortedRows<unknown[]>(store, ["time", "tenant"], [], {
+      segmentCount: 4,
+      chunkCount: 2,
+    });
+    await table.insert(rows);
+    expect(await table.range(0)).toEqual([
+      { time: 1, tenant: "x", v: 3 },
+      { time: 1, tenant: "y", v: 2 },
+      { time: 2, tenant: "a", v: 4 },
+      { time: 2, tenant: "x", v: 1 },
+    ]);
+    await table.flush("t.meta");
+    const reloaded = (await Table.load<unknown[]>(store, "t.meta"))!;
+    expect(reloaded.getMeta().order.keys).toEqual(["time", "tenant"]);
+    expect((await reloaded.scan([2], prefixEnd([2]))).map((r) => r.v)).toEqual([4, 1]);
+    expect((await reloaded.scan([1, "y"], [2, "b"])).map((r) => r.v)).toEqual([2, 4]);
+    await expect(reloaded.update(0, { tenant: "z" })).rejects.toThrow('Cannot update order key "tenant"');
+    await expect(reloaded.insert([{ time: 3 }])).rejects.toThrow("Row is missing key tenant");
+  });
+});
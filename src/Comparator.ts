@@ -0,0 +1,79 @@
+export type Comparator<T> = (a: T, b: T) => number;
+
+/**
+ * Name of the comparator used when meta records none: `<`/`>` on the raw
+ * values, which is ascending for numbers and binary for strings.
+ */
+export const DEFAULT_COMPARATOR = "default";
+
+function natural(a: unknown, b: unknown): number {
+  const aVal = a as number | string | bigint;
+  const bVal = b as number | string | bigint;
+  return aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
+}
+
+/**
+ * Marker that sorts after every tuple element; see `prefixEnd`.
+ */
+export const PREFIX_END: unique symbol = Symbol("PREFIX_END");
+
+/**
+ * Upper bound covering every tuple that starts with `prefix`, for scans like
+ * `scan([tenant], prefixEnd([tenant]))`.
+ */
+export function prefixEnd(prefix: unknown[]): unknown[] {
+  return [...prefix, PREFIX_END];
+}
+
+function compareElement(a: unknown, b: unknown): number {
+  if (a === PREFIX_END || b === PREFIX_END) return a === b ? 0 : a === PREFIX_END ? 1 : -1;
+  return natural(a, b);
+}
+
+// Lexicographic; a tuple sorts before its extensions, so prefixes work as bounds
+function compareTuples(a: unknown, b: unknown): number {
+  const x = a as unknown[];
+  const y = b as unknown[];
+  const n = Math.min(x.length, y.length);
+  for (let i = 0; i < n; i++) {
+    const c = compareElement(x[i], y[i]);
+    if (c !== 0) return c;
+  }
+  return x.length < y.length ? -1 : x.length > y.length ? 1 : 0;
+}
+
+// Collation is pinned to one locale so the order doesn't depend on the host
+const localeCollator = new Intl.Collator("en");
+const numericCollator = new Intl.Collator("en", { numeric: true });
+
+const comparators = new Map<string, Comparator<unknown>>([
+  [DEFAULT_COMPARATOR, natural],
+  ["numeric-asc", natural],
+  ["numeric-desc", (a, b) => natural(b, a)],
+  ["string-binary", natural],
+  ["string-locale", (a, b) => localeCollator.compare(a as string, b as string)],
+  // "file2" before "file10"
+  ["string-numeric", (a, b) => numericCollator.compare(a as string, b as string)],
+  // Composite keys such as [time, requestId]
+  ["tuple", compareTuples],
+]);
+
+/**
+ * Registers a comparator under `name` so ordered columns can record it in
+ * their meta. Stored data is only readable in processes that register the
+ * same comparator under the same name before rehydrating.
+ */
+export function registerComparator<T>(name: string, cmp: Comparator<T>): void {
+  const existing = comparators.get(name);
+  if (existing && existing !== cmp) {
+    throw new Error(`Comparator "${name}" is already registered`);
+  }
+  comparators.set(name, cmp as Comparator<unknown>);
+}
+
+/** Resolves a comparator name from meta; a missing name means the default. */
+export function getComparator<T>(name: string | undefined): Comparator<T> {
+  const cmp = comparators.get(name ?? DEFAULT_COMPARATOR);
+  if (!cmp) throw new Error(`Unknown comparator "${name}"`);
+  return cmp as Comparator<T>;
+}
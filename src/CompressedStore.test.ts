@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { MemoryStore } from "./Store";
+import {
+  CompressedStore,
+  createBrotliCodec,
+  createGzipCodec,
+} from "./CompressedStore";
+import { FenwickList } from "./FenwickList";
+import { Table, type TableMeta } from "./Table";
+import { OrderedColumn } from "./Column";
+
+describe("CompressedStore", () => {
+  for (const codec of [createGzipCodec(), createBrotliCodec()]) {
+    it(`round-trips values through ${codec.name}`, async () => {
+      const inner = new MemoryStore();
+      const store = new CompressedStore(inner, { codec });
+      const chunk = [Array.from({ length: 500 }, (_, i) => 1_700_000_000_000 + i), ["a", undefined, "a"]];
+      await store.set("chunk_0_x", chunk);
+
+      expect(await inner.get("chunk_0_x")).toBeInstanceOf(Uint8Array);
+      expect(await store.get<unknown[][]>("chunk_0_x")).toEqual(chunk);
+      expect(await store.get("missing")).toBeUndefined();
+    });
+  }
+
+  it("tracks bytes saved", async () => {
+    const store = new CompressedStore(new MemoryStore());
+    await store.set("a", new Array(1000).fill("project_published"));
+    const stats = store.getStats();
+    expect(stats.compressedWrites).toBe(1);
+    expect(stats.storedBytes).toBeLessThan(stats.rawBytes);
+    expect(stats.savedBytes).toBe(stats.rawBytes - stats.storedBytes);
+  });
+
+  it("optionally leaves meta keys uncompressed", async () => {
+    const inner = new MemoryStore();
+    const store = new CompressedStore(inner, { skipMeta: true });
+    await store.set("tables/t/p/x.meta", { order: { key: "$time" } });
+    expect(await inner.get<{ order: { key: string } }>("tables/t/p/x.meta")).toEqual({ order: { key: "$time" } });
+    expect(await store.get<{ order: { key: string } }>("tables/t/p/x.meta")).toEqual({ order: { key: "$time" } });
+    expect(store.getStats().compressedWrites).toBe(0);
+  });
+
+  it("works underneath columns and tables", async () => {
+    const store = new CompressedStore(new MemoryStore(), { skipMeta: true });
+    const list = new FenwickList<number>(store, { segmentCount: 8, chunkCount: 2 });
+    for (let i = 0; i < 50; i++) await list.insertAt(i, i);
+    await list.flush();
+    const reloaded = new FenwickList<number>(store, list.getMeta());
+    expect(await reloaded.range(0, 50)).toEqual(Array.from({ length: 50 }, (_, i) => i));
+
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, { segmentCount: 4, chunkCount: 2 }) },
+      undefined,
+      { segmentCount: 4, chunkCount: 2 },
+    );
+    await table.insert([
+      { id: 2, name: "b" },
+      { id: 1, name: "a" },
+    ]);
+    await table.flush("t.meta");
+    const meta = (await store.get<TableMeta<number>>("t.meta"))!;
+    expect(await new Table<number>(store, meta).range(0)).toEqual([
+      { id: 1, name: "a" },
+      { id: 2, name: "b" },
+    ]);
+  });
+});
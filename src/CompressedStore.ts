@@ -0,0 +1,115 @@
+import { promisify } from "node:util";
+import {
+  brotliCompress,
+  brotliDecompress,
+  constants as zlibConstants,
+  gunzip,
+  gzip,
+} from "node:zlib";
+import type { IStore } from "./Store";
+import { decodeValue, encodeValue } from "./Serialize";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+const brotliCompressAsync = promisify(brotliCompress);
+const brotliDecompressAsync = promisify(brotliDecompress);
+
+export interface CompressionCodec {
+  name: string;
+  compress(bytes: Uint8Array): Promise<Uint8Array>;
+  decompress(bytes: Uint8Array): Promise<Uint8Array>;
+}
+
+export function createGzipCodec(level = 6): CompressionCodec {
+  return {
+    name: "gzip",
+    compress: (bytes) => gzipAsync(bytes, { level }),
+    decompress: (bytes) => gunzipAsync(bytes),
+  };
+}
+
+// Brotli's default quality (11) is very slow to write; 5 is a good ingest tradeoff
+export function createBrotliCodec(quality = 5): CompressionCodec {
+  return {
+    name: "brotli",
+    compress: (bytes) =>
+      brotliCompressAsync(bytes, {
+        params: { [zlibConstants.BROTLI_PARAM_QUALITY]: quality },
+      }),
+    decompress: (bytes) => brotliDecompressAsync(bytes),
+  };
+}
+
+export type CompressionStats = {
+  // Values that went through the codec on set
+  compressedWrites: number;
+  // Serialized size before compression
+  rawBytes: number;
+  // Size actually handed to the inner store
+  storedBytes: number;
+  savedBytes: number;
+};
+
+/**
+ * IStore decorator that compresses values on `set` and decompresses on `get`.
+ * Values are serialized to bytes first, so any value the inner store can hold
+ * a Uint8Array for is supported. Values read back that are not bytes (e.g.
+ * written before the wrapper was introduced, or skipped meta) pass through.
+ */
+export class CompressedStore implements IStore {
+  private readonly codec: CompressionCodec;
+  private readonly skipMeta: boolean;
+  private stats: CompressionStats = {
+    compressedWrites: 0,
+    rawBytes: 0,
+    storedBytes: 0,
+    savedBytes: 0,
+  };
+
+  constructor(
+    private readonly inner: IStore,
+    opts?: {
+      codec?: CompressionCodec;
+      // Store `*.meta` keys as-is so they stay readable by hand
+      skipMeta?: boolean;
+    },
+  ) {
+    this.codec = opts?.codec ?? createGzipCodec();
+    this.skipMeta = opts?.skipMeta ?? false;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const stored = await this.inner.get<unknown>(key);
+    if (!(stored instanceof Uint8Array)) return stored as T | undefined;
+    const raw = await this.codec.decompress(stored);
+    return decodeValue(raw) as T;
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    if (this.skipMeta && key.endsWith(".meta")) {
+      await this.inner.set<T>(key, value);
+      return;
+    }
+    const raw = encodeValue(value);
+    const compressed = await this.codec.compress(raw);
+    // Hand the inner store a plain Uint8Array copy (zlib returns Buffers)
+    const bytes = new Uint8Array(compressed);
+    await this.inner.set<Uint8Array>(key, bytes);
+    this.stats.compressedWrites += 1;
+    this.stats.rawBytes += raw.byteLength;
+    this.stats.storedBytes += bytes.byteLength;
+    this.stats.savedBytes += raw.byteLength - bytes.byteLength;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.inner.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return this.inner.list(prefix);
+  }
+
+  getStats(): CompressionStats {
+    return { ...this.stats };
+  }
+}
@@ -1,23 +1,11 @@
 import { describe, it, expect } from "bun:test";
 import { MemoryStore } from "./Store";
 import { FenwickList } from "./FenwickList";
+import { FenwickOrderedList } from "./FenwickOrderedList";
 
 class TestFenwickList<T> extends FenwickList<T> {
   // Expose helpers for tests via any-casts to protected internals
 
-  setValueByIndex(index: number, value: T): void {
-    const { segIndex, localIndex } = (this as any).findByIndex(index) as {
-      segIndex: number;
-      localIndex: number;
-    };
-    const seg = this.getMeta().segments[segIndex] as unknown as {
-      count: number;
-    };
-    const arr = (this as any).getOrCreateArraySync(seg, true) as T[];
-    arr[localIndex] = value;
-    (this as any).dirty.add(seg);
-  }
-
   pushToSegment(segIndex: number, value: T): void {
     const seg = this.getMeta().segments[segIndex] as unknown as {
       count: number;
@@ -110,7 +98,7 @@ describe("FenwickBase invariants and persistence", () => {
     await list.flush();
     const k = 2;
     const persisted = await list.get(k);
-    list.setValueByIndex(k, 999); // do not flush
+    await list.setAt(k, 999); // do not flush
     // Clear caches to force reload from store
     list.clearCaches();
     const reloaded = await list.get(k);
@@ -187,3 +175,144 @@ describe("FenwickBase invariants and persistence", () => {
     expect(await list.range(0, 10)).toEqual([]);
   });
 });
+
+describe("FenwickBase cache limits", () => {
+  async function buildPersisted(store: MemoryStore, n: number) {
+    const list = new FenwickList<number>(store, { segmentCount: 8, chunkCount: 2 });
+    for (let i = 0; i < n; i++) await list.insertAt(i, i);
+    await list.flush();
+    return list.getMeta();
+  }
+
+  it("evicts least recently used clean segments and chunks during scans", async () => {
+    const store = new MemoryStore();
+    const meta = await buildPersisted(store, 200);
+    const list = new FenwickList<number>(store, meta);
+    list.setCacheLimits({ maxSegments: 3, maxChunks: 1 });
+
+    for (let i = 0; i < 200; i += 3) {
+      expect(await list.get(i)).toBe(i);
+      const stats = list.getCacheStats();
+      expect(stats.segments).toBeLessThanOrEqual(3);
+      expect(stats.chunks).toBeLessThanOrEqual(1);
+    }
+    expect(await list.range(0, 200)).toEqual(Array.from({ length: 200 }, (_, i) => i));
+    expect(list.getCacheStats().chunks).toBeLessThanOrEqual(1);
+    expect(list.getCacheStats().evictions).toBeGreaterThan(0);
+  });
+
+  it("keeps dirty segments pinned until flush", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 1 });
+    list.setCacheLimits({ maxSegments: 1, maxBytes: 0 });
+    for (let i = 0; i < 40; i++) await list.insertAt(i, i);
+    const before = list.getCacheStats();
+    expect(before.dirtySegments).toBeGreaterThan(1);
+    expect(before.segments).toBe(before.dirtySegments);
+    expect(await list.range(0, 40)).toEqual(Array.from({ length: 40 }, (_, i) => i));
+
+    await list.flush();
+    const after = list.getCacheStats();
+    expect(after.dirtySegments).toBe(0);
+    expect(after.segments).toBe(0);
+    expect(after.chunks).toBe(0);
+    expect(after.bytes).toBe(0);
+    expect(await list.range(0, 40)).toEqual(Array.from({ length: 40 }, (_, i) => i));
+  });
+
+  it("enforces a byte budget across segments and chunks", async () => {
+    const store = new MemoryStore();
+    const meta = await buildPersisted(store, 400);
+    const list = new FenwickList<number>(store, meta);
+    list.setCacheLimits({ maxBytes: 1024 });
+    const out = await list.range(0, 400);
+    expect(out).toEqual(Array.from({ length: 400 }, (_, i) => i));
+    for (let i = 0; i < 400; i += 37) expect(await list.get(i)).toBe(i);
+    expect(list.getCacheStats().bytes).toBeLessThanOrEqual(1024);
+
+    const unbounded = new FenwickList<number>(store, meta);
+    await unbounded.range(0, 400);
+    expect(unbounded.getCacheStats().bytes).toBeGreaterThan(1024);
+  });
+  it("keeps concurrent writes when other loads evict segments under tight limits", async () => {
+    const store = new MemoryStore();
+    const meta = await buildPersisted(store, 64);
+    const list = new FenwickList<number>(store, meta);
+    list.setCacheLimits({ maxSegments: 1, maxChunks: 1 });
+
+    const expected = Array.from({ length: 64 }, (_, i) => i);
+    const ops: Promise<unknown>[] = [];
+    for (let i = 0; i < 64; i += 4) {
+      ops.push(list.setAt(i, i + 1000));
+      expected[i] = i + 1000;
+      ops.push(list.get(63 - i));
+    }
+    await Promise.all(ops);
+    await list.flush();
+
+    const reloaded = new FenwickList<number>(store, list.getMeta());
+    expect(await reloaded.range(0, 64)).toEqual(expected);
+  });
+
+  it("keeps concurrent ordered inserts under tight limits", async () => {
+    const store = new MemoryStore();
+    const seeded = new FenwickOrderedList<number>(store, { segmentCount: 8, chunkCount: 2 });
+    for (let i = 0; i < 64; i++) await seeded.insert(i * 2);
+    await seeded.flush();
+    const list = new FenwickOrderedList<number>(store, seeded.getMeta());
+    list.setCacheLimits({ maxSegments: 1, maxChunks: 1 });
+
+    // One insert per segment, so none of them splits
+    const added = [1, 17, 33, 49, 65, 81, 97, 113];
+    await Promise.all([...added.map((v) => list.insert(v)), ...added.map((v) => list.getIndex(v + 1))]);
+    await list.flush();
+
+    const expected = [...Array.from({ length: 64 }, (_, i) => i * 2), ...added].sort((a, b) => a - b);
+    const reloaded = new FenwickOrderedList<number>(store, list.getMeta());
+    expect(await reloaded.range(0, expected.length)).toEqual(expected);
+  });
+});
+
+
+describe("FenwickBase.compact", () => {
+  it("merges underfull segments and repacks chunks without touching old snapshots", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 8, chunkCount: 2 });
+    const model = Array.from({ length: 96 }, (_, i) => i);
+    for (const v of model) await list.insertAt(v, v);
+    // Thin out every segment so most fall below half full
+    for (let i = model.length - 1; i >= 0; i -= 3) {
+      await list.removeRange(i - 1, i + 1);
+      model.splice(i - 1, 2);
+    }
+    await list.flush();
+    const oldMeta = structuredClone(list.getMeta());
+
+    const result = await list.compact();
+    expect(result.segmentsBefore).toBe(oldMeta.segments.length);
+    expect(result.segmentsAfter).toBeLessThan(result.segmentsBefore);
+    expect(result.written.length).toBeGreaterThan(0);
+    const meta = list.getMeta();
+    expect(meta.chunkSegments!.slice(0, -1).every((ids) => ids.length === 2)).toBe(true);
+    expect(meta.chunkSegments!.flat()).toEqual(meta.segments.map((s) => s.id!));
+
+    expect(await list.range(0, model.length)).toEqual(model);
+    const reloaded = new FenwickList<number>(store, structuredClone(meta));
+    expect(await reloaded.range(0, model.length)).toEqual(model);
+    const old = new FenwickList<number>(store, oldMeta);
+    expect(await old.range(0, model.length)).toEqual(model);
+
+    // Already compact: nothing to rewrite
+    expect((await reloaded.compact()).written).toEqual([]);
+  });
+
+  it("persists pending changes while compacting", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 3 });
+    for (let i = 0; i < 20; i++) await list.insertAt(0, i);
+    await list.compact({ minFill: 4 });
+    expect(list.getCacheStats().dirtySegments).toBe(0);
+    const reloaded = new FenwickList<number>(store, structuredClone(list.getMeta()));
+    expect(await reloaded.range(0, 20)).toEqual(Array.from({ length: 20 }, (_, i) => 19 - i));
+  });
+});
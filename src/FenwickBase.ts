@@ -1,20 +1,66 @@
 import type { IStore } from "./Store";
+import { getChunkCodec, type ChunkCodec } from "./ChunkCodec";
 
 export type BaseSegment<T> = {
   count: number;
+  // Stable identity, assigned when the segment is first persisted
+  id?: number;
 };
 
 // Removed unused utility types to reduce clutter
 
+// Every copy-on-write chunk key starts with this prefix (see generateChunkKey)
+export const CHUNK_KEY_PREFIX = "chunk_";
+
 export type FenwickBaseMeta<T, S extends BaseSegment<T>> = {
   // Maximum number of values per in-memory segment array
   segmentCount: number;
-  // Ordered list of segment descriptors (no ids; indexed by position)
+  // Ordered list of segment descriptors
   segments: S[];
-  // Number of segments per chunk (<=0 means 1 segment per chunk)
+  // Maximum number of segments per chunk (<=0 means 1 segment per chunk)
   chunkCount: number;
-  // Copy-on-write chunk keys by chunk index
+  // Copy-on-write chunk keys by chunk index ("" for a chunk with no segments)
   chunks: string[];
+  // Segment ids stored in each chunk, by slot. Segments keep their chunk and
+  // slot when others are inserted or removed around them. Metas without it
+  // use the legacy positional layout (segment i in chunk floor(i / chunkCount)).
+  chunkSegments?: number[][];
+  // Next id handed out to a newly persisted segment
+  nextSegmentId?: number;
+  // Chunk codec id used for writes ("json" when absent); reads accept any format
+  codec?: string;
+};
+
+// Soft budgets for the segment and chunk caches. Unset limits are unbounded.
+export type CacheLimits = {
+  // Estimated bytes across cached segment arrays and chunks
+  maxBytes?: number;
+  maxSegments?: number;
+  maxChunks?: number;
+};
+
+export type CacheStats = {
+  segments: number;
+  // Segments with unflushed changes; pinned until flush
+  dirtySegments: number;
+  chunks: number;
+  bytes: number;
+  evictions: number;
+};
+
+export type CompactOptions = {
+  // Adjacent segments are merged while either holds fewer values than this
+  // (default: half of segmentCount) and the result fits in one segment
+  minFill?: number;
+};
+
+export type CompactResult = {
+  segmentsBefore: number;
+  segmentsAfter: number;
+  chunksBefore: number;
+  chunksAfter: number;
+  // New chunk keys written; chunks whose contents did not change keep their key
+  written: string[];
 };
 
 export abstract class FenwickBase<T, S extends BaseSegment<T>> {
@@ -28,9 +74,48 @@ export abstract class FenwickBase<T, S extends BaseSegment<T>> {
   protected segmentArrays = new Map<S, T[]>();
   // O(1) lookup for segment index by object identity
   protected segmentIndexByRef = new Map<S, number>();
+  // Persisted location of each segment id
+  private segmentHomes = new Map<number, { chunk: number; slot: number }>();
+  // Chunks that lost a segment since the last flush and must be repacked
+  private vacatedChunks = new Set<number>();
+  private codec!: ChunkCodec;
+  // LRU bookkeeping: Map insertion order doubles as recency order
+  private cacheLimits: CacheLimits = {};
+  private segmentBytes = new Map<S, number>();
+  private chunkBytes = new Map<number, number>();
+  private cachedBytes = 0;
+  private evictions = 0;
   public clearCaches(): void {
     this.segmentArrays.clear();
     this.chunkCache.clear();
+    this.segmentBytes.clear();
+    this.chunkBytes.clear();
+    this.cachedBytes = 0;
+  }
+
+  /**
+   * Bounds the caches. Least recently used clean segments and chunks are
+   * evicted once a limit is exceeded; dirty segments stay pinned until flush.
+   */
+  setCacheLimits(limits: CacheLimits): void {
+    this.cacheLimits = { ...limits };
+    this.enforceCacheLimits();
+  }
+
+  getCacheStats(): CacheStats {
+    let bytes = this.cachedBytes;
+    // Dirty arrays may have grown since they were last measured
+    for (const seg of this.dirty) {
+      const arr = this.segmentArrays.get(seg);
+      if (arr) bytes += estimateBytes(arr) - (this.segmentBytes.get(seg) ?? 0);
+    }
+    return {
+      segments: this.segmentArrays.size,
+      dirtySegments: this.dirty.size,
+      chunks: this.chunkCache.size,
+      bytes,
+      evictions: this.evictions,
+    };
   }
 
   protected constructor(
@@ -47,6 +132,8 @@ export abstract class FenwickBase<T, S extends BaseSegment<T>> {
   setMeta(meta: FenwickBaseMeta<T, S>): void {
     this.meta = meta;
     if (!Array.isArray(this.meta.chunks)) this.meta.chunks = [];
+    this.codec = getChunkCodec(this.meta.codec);
+    this.rebuildSegmentHomes();
     // Recompute derived state from provided segments
     this.totalCount = Array.isArray(this.meta.segments)
       ? this.meta.segments.reduce((sum, seg) => sum + (seg?.count ?? 0), 0)
@@ -91,51 +178,269 @@ export abstract class FenwickBase<T, S extends BaseSegment<T>> {
     return out;
   }
 
+  /**
+   * Streams values in [minIndex, maxIndex) one segment-sized batch at a time.
+   * The next segment (and with it the next chunk) is loaded while the consumer
+   * handles the current batch. Iteration walks the segments present when it
+   * started and is not isolated from concurrent writes.
+   */
+  async *iterate(minIndex = 0, maxIndex = Number.POSITIVE_INFINITY): AsyncGenerator<T[]> {
+    const a = Math.max(0, minIndex);
+    const b = Math.min(maxIndex, this.totalCount);
+    if (!(b > a)) return;
+    const { segIndex: s0, localIndex } = this.findByIndex(a);
+    const { segIndex: s1 } = this.findByIndex(b - 1);
+    const segs = this.meta.segments.slice(s0, s1 + 1) as S[];
+    const load = (seg: S) => {
+      const promise = this.getReadOnlyArrayForSegment(seg);
+      // Avoid unhandled rejections when the consumer stops early
+      promise.catch(() => undefined);
+      return promise;
+    };
+    let remaining = b - a;
+    let local = localIndex;
+    let next = load(segs[0] as S);
+    for (let k = 0; k < segs.length && remaining > 0; k++) {
+      const arr = await next;
+      if (k + 1 < segs.length) next = load(segs[k + 1] as S);
+      const take = Math.min(remaining, Math.max(0, arr.length - local));
+      if (take > 0) yield arr.slice(local, local + take);
+      remaining -= take;
+      local = 0;
+    }
+  }
+
   async flush(): Promise<string[]> {
-    if (this.dirty.size === 0) return [];
-    const changedByChunk = new Map<
-      number,
-      Array<{ seg: S; segIndex: number }>
-    >();
-    const chunkSize = this.effectiveChunkSize();
-    for (const seg of this.dirty) {
-      const idx = this.getSegmentIndex(seg);
-      if (idx < 0) continue;
-      const cidx = Math.floor(idx / chunkSize);
-      let arr = changedByChunk.get(cidx);
-      if (!arr) {
-        arr = [];
-        changedByChunk.set(cidx, arr);
-      }
-      arr.push({ seg, segIndex: idx });
+    const plan = this.planChunkWrites();
+    if (plan.size === 0) {
+      this.dirty.clear();
+      return [];
     }
+    const chunkSize = this.effectiveChunkSize();
+    const byId = new Map<number, S>();
+    for (const seg of this.meta.segments) if (seg.id !== undefined) byId.set(seg.id, seg);
 
     const writtenKeys: string[] = [];
     await Promise.all(
-      Array.from(changedByChunk.entries()).map(async ([cidx, items]) => {
-        const chunk = await this.getOrLoadChunk(cidx);
-        const newChunk: T[][] = new Array<T[]>(chunkSize);
-        for (let i = 0; i < chunkSize; i++)
-          newChunk[i] = (chunk[i] ?? []) as T[];
-        // Override dirty segments with current in-memory arrays
-        for (const { seg, segIndex } of items) {
-          const pos = segIndex % chunkSize;
-          const arr = this.getOrCreateArraySync(seg, true);
-          newChunk[pos] = arr.slice() as unknown as T[];
+      Array.from(plan.entries()).map(async ([cidx, ids]) => {
+        const chunks = this.meta.chunkSegments!;
+        if (ids.length === 0) {
+          this.meta.chunks[cidx] = "";
+          chunks[cidx] = [];
+          this.forgetChunk(cidx);
+          return;
         }
+        // Clean members keep their persisted data; dirty ones take the in-memory array
+        const needsOld = ids.some((id) => !this.dirty.has(byId.get(id) as S));
+        const old = needsOld ? await this.getOrLoadChunk(cidx) : [];
+        const newChunk: T[][] = new Array<T[]>(chunkSize);
+        for (let i = 0; i < chunkSize; i++) newChunk[i] = [];
+        ids.forEach((id, slot) => {
+          const seg = byId.get(id) as S;
+          if (this.dirty.has(seg)) {
+            newChunk[slot] = this.getOrCreateArraySync(seg, true).slice() as T[];
+          } else {
+            const home = this.segmentHomes.get(id);
+            newChunk[slot] = (old[home?.slot ?? -1] ?? []) as T[];
+          }
+        });
         const newKey = this.generateChunkKey(cidx);
-        await this.store.set<T[][]>(newKey, newChunk);
+        await this.store.set(newKey, this.codec.encode(newChunk));
         this.meta.chunks[cidx] = newKey;
+        chunks[cidx] = ids;
         // Update cache to reflect the new persisted chunk
-        this.chunkCache.set(cidx, newChunk);
+        this.cacheChunk(cidx, newChunk);
         writtenKeys.push(newKey);
       }),
     );
+    this.trimEmptyChunks();
+    this.rebuildSegmentHomes();
+    this.vacatedChunks.clear();
 
+    // Formerly dirty segments become evictable; re-measure what they hold now
+    for (const seg of this.dirty) {
+      const arr = this.segmentArrays.get(seg);
+      if (arr) this.cacheSegmentArray(seg, arr);
+    }
     this.dirty.clear();
+    this.enforceCacheLimits();
     return writtenKeys;
   }
 
+  /**
+   * Decides the new member list of every chunk that must be rewritten: the
+   * homes of dirty segments, chunks that lost segments, and chunks receiving
+   * new segments. New segments go next to a neighbor when its chunk has room.
+   */
+  private planChunkWrites(): Map<number, number[]> {
+    const chunkSize = this.effectiveChunkSize();
+    const chunks = this.meta.chunkSegments!;
+    const live = new Set<number>();
+    for (const seg of this.meta.segments) if (seg.id !== undefined) live.add(seg.id);
+    const plan = new Map<number, number[]>();
+    const planFor = (cidx: number): number[] => {
+      let ids = plan.get(cidx);
+      if (!ids) {
+        ids = (chunks[cidx] ?? []).filter((id) => live.has(id));
+        plan.set(cidx, ids);
+      }
+      return ids;
+    };
+    const sizeOf = (cidx: number) =>
+      plan.get(cidx)?.length ?? (chunks[cidx] ?? []).filter((id) => live.has(id)).length;
+    const placed = new Map<number, number>();
+    const chunkOf = (seg: S | undefined) =>
+      seg?.id === undefined ? undefined : placed.get(seg.id) ?? this.segmentHomes.get(seg.id)?.chunk;
+
+    for (const cidx of this.vacatedChunks) planFor(cidx);
+    const dirty = Array.from(this.dirty)
+      .map((seg) => ({ seg, idx: this.getSegmentIndex(seg) }))
+      .filter(({ idx }) => idx >= 0)
+      .sort((a, b) => a.idx - b.idx);
+    for (const { seg, idx } of dirty) {
+      if (seg.id === undefined) {
+        seg.id = this.meta.nextSegmentId ?? 0;
+        this.meta.nextSegmentId = seg.id + 1;
+        live.add(seg.id);
+      }
+      const home = this.segmentHomes.get(seg.id);
+      if (home) {
+        planFor(home.chunk);
+        continue;
+      }
+      const candidates = [
+        chunkOf(this.meta.segments[idx - 1]),
+        chunkOf(this.meta.segments[idx + 1]),
+        chunks.length - 1,
+      ];
+      let cidx = candidates.find((c) => c !== undefined && c >= 0 && sizeOf(c) < chunkSize);
+      if (cidx === undefined) {
+        cidx = chunks.length;
+        chunks.push([]);
+      }
+      planFor(cidx).push(seg.id);
+      placed.set(seg.id, cidx);
+    }
+    return plan;
+  }
+  /**
+   * Appends values in one pass: the last segment is topped up, the rest is cut
+   * straight into full segments, and the Fenwick tree is built once. New
+   * segments are packed into chunks on the next flush.
+   */
+  async bulkLoad(values: T[]): Promise<void> {
+    if (values.length === 0) return;
+    const cap = this.meta.segmentCount;
+    let offset = 0;
+    const last = this.meta.segments[this.meta.segments.length - 1];
+    if (last && last.count < cap) {
+      const arr = await this.getOrCreateArrayForSegment(last, true, true);
+      offset = Math.min(cap - arr.length, values.length);
+      for (let i = 0; i < offset; i++) arr.push(values[i] as T);
+      last.count = arr.length;
+      this.updateSegmentMetadata(last, arr);
+      this.cacheSegmentArray(last, arr);
+      this.dirty.add(last);
+    }
+    for (; offset < values.length; offset += cap) {
+      const arr = values.slice(offset, offset + cap);
+      const seg = this.createNewSegmentObject(arr.length, arr);
+      this.meta.segments.push(seg);
+      this.cacheSegmentArray(seg, arr);
+      this.dirty.add(seg);
+    }
+    this.totalCount += values.length;
+    this.rebuildIndices();
+  }
+
+  /**
+   * Merges runs of underfull adjacent segments and repacks chunks so that
+   * consecutive segments share chunks, `chunkCount` per chunk. Pending
+   * changes are persisted as part of it. Every rewritten chunk gets a new key,
+   * so readers of an older meta snapshot are unaffected.
+   */
+  async compact(opts?: CompactOptions): Promise<CompactResult> {
+    const minFill = opts?.minFill ?? Math.max(1, Math.floor(this.meta.segmentCount / 2));
+    const segmentsBefore = this.meta.segments.length;
+    const chunksBefore = this.meta.chunks.filter(Boolean).length;
+
+    // 1) Merge left to right; a merged segment may absorb further neighbors
+    let merged = false;
+    for (let i = 0; i + 1 < this.meta.segments.length; ) {
+      const a = this.meta.segments[i] as S;
+      const b = this.meta.segments[i + 1] as S;
+      if ((a.count < minFill || b.count < minFill) && a.count + b.count <= this.meta.segmentCount) {
+        await this.mergeSegments(i);
+        merged = true;
+      } else {
+        i++;
+      }
+    }
+    if (merged) this.rebuildIndices();
+
+    // 2) Assign the ideal layout: segment i in chunk floor(i / chunkSize)
+    const chunkSize = this.effectiveChunkSize();
+    for (const seg of this.meta.segments) {
+      if (seg.id !== undefined) continue;
+      seg.id = this.meta.nextSegmentId ?? 0;
+      this.meta.nextSegmentId = seg.id + 1;
+    }
+    const layout: number[][] = [];
+    for (let i = 0; i < this.meta.segments.length; i += chunkSize) {
+      layout.push(this.meta.segments.slice(i, i + chunkSize).map((seg) => seg.id as number));
+    }
+
+    // 3) Write chunks whose members or contents changed. Old keys and homes
+    // stay in place until every write is done, since reads still go through them.
+    const current = this.meta.chunkSegments!;
+    const keys: string[] = [];
+    const written: string[] = [];
+    for (let cidx = 0; cidx < layout.length; cidx++) {
+      const ids = layout[cidx] as number[];
+      const segs = this.meta.segments.slice(cidx * chunkSize, cidx * chunkSize + ids.length) as S[];
+      const unchanged =
+        !!this.meta.chunks[cidx] &&
+        sameIds(current[cidx], ids) &&
+        segs.every((seg) => !this.dirty.has(seg));
+      if (unchanged) {
+        keys.push(this.meta.chunks[cidx] as string);
+        continue;
+      }
+      const newChunk: T[][] = new Array<T[]>(chunkSize);
+      for (let i = 0; i < chunkSize; i++) newChunk[i] = [];
+      const arrays = await Promise.all(segs.map((seg) => this.getReadOnlyArrayForSegment(seg)));
+      arrays.forEach((arr, slot) => {
+        newChunk[slot] = arr.slice();
+      });
+      const newKey = this.generateChunkKey(cidx);
+      await this.store.set(newKey, this.codec.encode(newChunk));
+      keys.push(newKey);
+      written.push(newKey);
+    }
+
+    // 4) Swap in the new layout
+    for (const cidx of Array.from(this.chunkCache.keys())) {
+      if (keys[cidx] !== this.meta.chunks[cidx]) this.forgetChunk(cidx);
+    }
+    this.meta.chunks = keys;
+    this.meta.chunkSegments = layout;
+    this.rebuildSegmentHomes();
+    this.vacatedChunks.clear();
+    for (const seg of this.dirty) {
+      const arr = this.segmentArrays.get(seg);
+      if (arr) this.cacheSegmentArray(seg, arr);
+    }
+    this.dirty.clear();
+    this.enforceCacheLimits();
+    return {
+      segmentsBefore,
+      segmentsAfter: this.meta.segments.length,
+      chunksBefore,
+      chunksAfter: keys.length,
+      written,
+    };
+  }
+
   // ---- internals shared ----
 
   /**
@@ -163,6 +468,102 @@ export abstract class FenwickBase<T, S extends BaseSegment<T>> {
     segment.count = arr.length;
   }
 
+  /**
+   * Removes values in [minIndex, maxIndex) and returns them. Segments left
+   * empty are dropped and underfull ones merged into a neighbor.
+   */
+  protected async removeIndexRange(minIndex: number, maxIndex: number): Promise<T[]> {
+    const a = Math.max(0, minIndex);
+    const b = Math.min(maxIndex, this.totalCount);
+    if (!(b > a)) return [];
+    const { segIndex: s0, localIndex: l0 } = this.findByIndex(a);
+    const { segIndex: s1, localIndex: l1 } = this.findByIndex(b - 1);
+    const first = this.meta.segments[s0] as S;
+    const last = this.meta.segments[s1] as S;
+
+    const minFill = this.minSegmentFill();
+    // Mark dirty right away so loading `last` can't evict it
+    const firstArr = await this.getOrCreateArrayForSegment(first, true, true);
+    const removed: T[] = [];
+    if (s0 === s1) {
+      removed.push(...firstArr.splice(l0, l1 - l0 + 1));
+    } else {
+      removed.push(...firstArr.splice(l0));
+      for (let k = s0 + 1; k < s1; k++) {
+        const seg = this.meta.segments[k] as S;
+        removed.push(...(await this.getOrCreateArrayForSegment(seg, true)));
+        seg.count = 0;
+      }
+      const lastArr = await this.getOrCreateArrayForSegment(last, true, true);
+      removed.push(...lastArr.splice(0, l1 + 1));
+      last.count = lastArr.length;
+      this.updateSegmentMetadata(last, lastArr);
+      this.dirty.add(last);
+    }
+    first.count = firstArr.length;
+    this.updateSegmentMetadata(first, firstArr);
+    this.totalCount -= removed.length;
+
+    // Drop emptied segments, then merge underfull survivors
+    for (let k = s1; k >= s0; k--) {
+      const seg = this.meta.segments[k] as S;
+      if (seg.count === 0) this.dropSegmentAt(k);
+    }
+    this.rebuildIndices();
+    for (const seg of [first, last]) {
+      if (seg.count > 0 && seg.count < minFill) await this.mergeWithNeighbor(seg);
+    }
+    return removed;
+  }
+
+  // Segments below this size are merged into a neighbor after removals
+  protected minSegmentFill(): number {
+    return Math.max(1, Math.floor(this.meta.segmentCount / 4));
+  }
+
+  private dropSegmentAt(index: number): void {
+    const seg = this.meta.segments[index] as S;
+    this.meta.segments.splice(index, 1);
+    // Its chunk is repacked on the next flush
+    const home = seg.id === undefined ? undefined : this.segmentHomes.get(seg.id);
+    if (home) this.vacatedChunks.add(home.chunk);
+    this.dirty.delete(seg);
+    this.cachedBytes -= this.segmentBytes.get(seg) ?? 0;
+    this.segmentBytes.delete(seg);
+    this.segmentArrays.delete(seg);
+  }
+
+  // Merges a segment into its smaller neighbor when the result fits
+  private async mergeWithNeighbor(seg: S): Promise<void> {
+    const idx = this.getSegmentIndex(seg);
+    if (idx < 0) return;
+    const left = this.meta.segments[idx - 1] as S | undefined;
+    const right = this.meta.segments[idx + 1] as S | undefined;
+    const fits = (n?: S) => !!n && n.count + seg.count <= this.meta.segmentCount;
+    let target: S | undefined;
+    if (fits(left) && fits(right)) target = left!.count <= right!.count ? left : right;
+    else target = fits(left) ? left : fits(right) ? right : undefined;
+    if (!target) return;
+
+    // Always merge the right-hand segment into the left-hand one
+    await this.mergeSegments(target === left ? idx - 1 : idx);
+    this.rebuildIndices();
+  }
+
+  // Appends segment index + 1 to segment index; callers rebuild indices after
+  private async mergeSegments(index: number): Promise<void> {
+    const keep = this.meta.segments[index] as S;
+    const drop = this.meta.segments[index + 1] as S;
+    // Mark dirty right away so loading `drop` can't evict it
+    const keepArr = await this.getOrCreateArrayForSegment(keep, true, true);
+    const dropArr = await this.getOrCreateArrayForSegment(drop, true);
+    for (const v of dropArr) keepArr.push(v);
+    keep.count = keepArr.length;
+    this.updateSegmentMetadata(keep, keepArr);
+    this.cacheSegmentArray(keep, keepArr);
+    this.dropSegmentAt(index + 1);
+  }
+
   protected async splitSegment(index: number): Promise<void> {
     const seg = this.meta.segments[index] as S;
     const arr = this.getOrCreateArraySync(seg, true);
@@ -271,68 +672,231 @@ export abstract class FenwickBase<T, S extends BaseSegment<T>> {
     preset?: T[],
   ): T[] {
     const existing = this.segmentArrays.get(segment);
-    if (existing) return existing as T[];
-    if (create) {
-      const arr = (preset ?? []) as T[];
-      this.segmentArrays.set(segment, arr);
-      return arr;
+    if (existing) {
+      this.touchSegment(segment, existing);
+      return existing as T[];
+    }
+    // An empty array would hide the persisted values and flush would drop them
+    if (!preset && this.homeOf(segment)) {
+      throw new Error("Segment data is not loaded; use loadSegmentForWrite");
     }
-    // If not in memory, create empty array (caller may load asynchronously)
     const arr = (preset ?? []) as T[];
-    this.segmentArrays.set(segment, arr);
+    this.cacheSegmentArray(segment, arr);
     return arr;
   }
 
+  /**
+   * Loads a segment's working array for a caller that is about to change it.
+   * The segment is marked dirty before this returns, so no concurrent load
+   * can evict it in the meantime.
+   */
+  protected async loadSegmentForWrite(segment: S): Promise<T[]> {
+    await this.ensureSegmentLoaded(segment);
+    return this.getOrCreateArrayForSegment(segment, true, true);
+  }
+
   private async getOrCreateArrayForSegment(
     segment: S,
     create = false,
+    write = false,
   ): Promise<T[]> {
     const current = this.segmentArrays.get(segment);
-    if (current) return current as T[];
-    const idx = this.getSegmentIndex(segment);
-    const chunkSize = this.effectiveChunkSize();
-    const cidx = Math.floor(idx / chunkSize);
-    const chunk = await this.getOrLoadChunk(cidx);
-    const pos = idx % chunkSize;
-    const arr = (chunk[pos] ?? []) as T[];
+    if (current) {
+      this.touchSegment(segment, current);
+      if (write) this.dirty.add(segment);
+      return current as T[];
+    }
+    const home = this.homeOf(segment);
+    const chunk = home ? await this.getOrLoadChunk(home.chunk) : [];
+    // Another caller may have loaded (and changed) it while we waited
+    const loaded = this.segmentArrays.get(segment);
+    if (loaded) {
+      this.touchSegment(segment, loaded);
+      if (write) this.dirty.add(segment);
+      return loaded as T[];
+    }
+    const arr = (home ? chunk[home.slot] ?? [] : []) as T[];
     // Store a working copy so mutations don't alias the chunk cache
     const copy = arr.slice() as unknown as T[];
-    if (create || copy.length > 0) this.segmentArrays.set(segment, copy);
+    if (create || copy.length > 0) {
+      this.cacheSegmentArray(segment, copy);
+      if (write) this.dirty.add(segment);
+      this.enforceCacheLimits(segment);
+    }
     return copy;
   }
 
   protected async getReadOnlyArrayForSegment(segment: S): Promise<T[]> {
     const inMem = this.segmentArrays.get(segment);
-    if (inMem) return inMem as T[];
-    const idx = this.getSegmentIndex(segment);
-    if (idx < 0) return [] as T[];
-    const chunkSize = this.effectiveChunkSize();
-    const cidx = Math.floor(idx / chunkSize);
-    const chunk = await this.getOrLoadChunk(cidx);
-    const pos = idx % chunkSize;
-    return (chunk[pos] ?? []) as T[];
+    if (inMem) {
+      this.touchSegment(segment, inMem);
+      return inMem as T[];
+    }
+    const home = this.homeOf(segment);
+    if (!home) return [] as T[];
+    const chunk = await this.getOrLoadChunk(home.chunk);
+    return (chunk[home.slot] ?? []) as T[];
+  }
+
+  // Where a segment's data was last persisted; undefined for new segments
+  private homeOf(segment: S): { chunk: number; slot: number } | undefined {
+    return segment.id === undefined ? undefined : this.segmentHomes.get(segment.id);
   }
 
   private async getOrLoadChunk(chunkIndex: number): Promise<T[][]> {
     const cached = this.chunkCache.get(chunkIndex);
-    if (cached) return cached as T[][];
+    if (cached) {
+      if (this.hasCacheLimits()) {
+        this.chunkCache.delete(chunkIndex);
+        this.chunkCache.set(chunkIndex, cached);
+      }
+      return cached as T[][];
+    }
     const chunkSize = this.effectiveChunkSize();
     const key = this.meta.chunks[chunkIndex];
-    let chunk = (key ? await this.store.get<T[][]>(key) : undefined) ?? [];
-    if (!Array.isArray(chunk)) chunk = [];
+    const stored = key ? await this.store.get<unknown>(key) : undefined;
+    let chunk = stored === undefined ? [] : this.codec.decode<T>(stored);
     if (chunk.length < chunkSize) {
       const augmented = new Array<T[]>(chunkSize);
       for (let i = 0; i < chunkSize; i++)
         augmented[i] = (chunk[i] ?? []) as T[];
       chunk = augmented;
     }
-    this.chunkCache.set(chunkIndex, chunk as T[][]);
+    this.cacheChunk(chunkIndex, chunk as T[][]);
+    this.enforceCacheLimits();
     return chunk as T[][];
   }
 
+  private rebuildSegmentHomes(): void {
+    if (!this.meta.chunkSegments) this.meta.chunkSegments = this.legacyChunkSegments();
+    this.segmentHomes.clear();
+    let maxId = -1;
+    this.meta.chunkSegments.forEach((ids, chunk) => {
+      ids.forEach((id, slot) => this.segmentHomes.set(id, { chunk, slot }));
+    });
+    for (const seg of this.meta.segments) if (seg.id !== undefined) maxId = Math.max(maxId, seg.id);
+    for (const id of this.segmentHomes.keys()) maxId = Math.max(maxId, id);
+    if (this.meta.nextSegmentId === undefined || this.meta.nextSegmentId <= maxId) {
+      this.meta.nextSegmentId = maxId + 1;
+    }
+  }
+
+  // Older metas address segments by position; give them ids matching that layout
+  private legacyChunkSegments(): number[][] {
+    const chunkSize = this.effectiveChunkSize();
+    const segments = Array.isArray(this.meta.segments) ? this.meta.segments : [];
+    segments.forEach((seg, i) => {
+      if (seg.id === undefined) seg.id = i;
+    });
+    const chunkSegments: number[][] = [];
+    for (let c = 0; c < this.meta.chunks.length; c++) {
+      const members = this.meta.chunks[c] ? segments.slice(c * chunkSize, (c + 1) * chunkSize) : [];
+      chunkSegments.push(members.map((seg) => seg.id as number));
+    }
+    return chunkSegments;
+  }
+
+  // Drop trailing chunks that no longer hold any segment
+  private trimEmptyChunks(): void {
+    const chunks = this.meta.chunkSegments!;
+    while (chunks.length > 0 && (chunks[chunks.length - 1] as number[]).length === 0) {
+      chunks.pop();
+      this.forgetChunk(chunks.length);
+    }
+    this.meta.chunks.length = chunks.length;
+  }
+
+  private forgetChunk(cidx: number): void {
+    if (!this.chunkCache.has(cidx)) return;
+    this.chunkCache.delete(cidx);
+    this.cachedBytes -= this.chunkBytes.get(cidx) ?? 0;
+    this.chunkBytes.delete(cidx);
+  }
+
+  // ---- cache budget helpers ----
+  private hasCacheLimits(): boolean {
+    const { maxBytes, maxSegments, maxChunks } = this.cacheLimits;
+    return maxBytes !== undefined || maxSegments !== undefined || maxChunks !== undefined;
+  }
+
+  private touchSegment(segment: S, arr: T[]): void {
+    if (!this.hasCacheLimits()) return;
+    this.segmentArrays.delete(segment);
+    this.segmentArrays.set(segment, arr);
+  }
+
+  private cacheSegmentArray(segment: S, arr: T[]): void {
+    const bytes = estimateBytes(arr);
+    this.cachedBytes += bytes - (this.segmentBytes.get(segment) ?? 0);
+    this.segmentBytes.set(segment, bytes);
+    this.segmentArrays.delete(segment);
+    this.segmentArrays.set(segment, arr);
+  }
+
+  private cacheChunk(chunkIndex: number, chunk: T[][]): void {
+    let bytes = 0;
+    for (const arr of chunk) bytes += estimateBytes(arr ?? []);
+    this.cachedBytes += bytes - (this.chunkBytes.get(chunkIndex) ?? 0);
+    this.chunkBytes.set(chunkIndex, bytes);
+    this.chunkCache.delete(chunkIndex);
+    this.chunkCache.set(chunkIndex, chunk);
+  }
+
+  private evictChunk(chunkIndex: number): void {
+    this.chunkCache.delete(chunkIndex);
+    this.cachedBytes -= this.chunkBytes.get(chunkIndex) ?? 0;
+    this.chunkBytes.delete(chunkIndex);
+    this.evictions += 1;
+  }
+
+  private evictSegment(segment: S): void {
+    this.segmentArrays.delete(segment);
+    this.cachedBytes -= this.segmentBytes.get(segment) ?? 0;
+    this.segmentBytes.delete(segment);
+    this.evictions += 1;
+  }
+
+  // Oldest clean segment, never the one a caller is about to use
+  private oldestEvictableSegment(keep?: S): S | undefined {
+    for (const seg of this.segmentArrays.keys()) {
+      if (seg !== keep && !this.dirty.has(seg)) return seg;
+    }
+    return undefined;
+  }
+
+  private enforceCacheLimits(keep?: S): void {
+    if (!this.hasCacheLimits()) return;
+    const { maxBytes, maxSegments, maxChunks } = this.cacheLimits;
+    if (maxChunks !== undefined) {
+      for (const cidx of this.chunkCache.keys()) {
+        if (this.chunkCache.size <= maxChunks) break;
+        this.evictChunk(cidx);
+      }
+    }
+    if (maxSegments !== undefined) {
+      while (this.segmentArrays.size > maxSegments) {
+        const seg = this.oldestEvictableSegment(keep);
+        if (!seg) break;
+        this.evictSegment(seg);
+      }
+    }
+    if (maxBytes !== undefined) {
+      // Chunks go first: segment arrays hold the working copies
+      for (const cidx of this.chunkCache.keys()) {
+        if (this.cachedBytes <= maxBytes) break;
+        this.evictChunk(cidx);
+      }
+      while (this.cachedBytes > maxBytes) {
+        const seg = this.oldestEvictableSegment(keep);
+        if (!seg) break;
+        this.evictSegment(seg);
+      }
+    }
+  }
+
   private generateChunkKey(chunkIndex: number): string {
     const suffix = `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
-    return `chunk_${chunkIndex}_${suffix}`;
+    return `${CHUNK_KEY_PREFIX}${chunkIndex}_${suffix}`;
   }
 
   private rebuildSegmentIndexMap(): void {
@@ -355,3 +919,17 @@ export abstract class FenwickBase<T, S extends BaseSegment<T>> {
     }
   }
 }
+
+// Rough in-memory footprint of a segment array, used for cache budgets
+function estimateBytes(arr: unknown[]): number {
+  let bytes = 16;
+  for (let i = 0; i < arr.length; i++) {
+    const v = arr[i];
+    bytes += typeof v === "string" ? 16 + 2 * v.length : 8;
+  }
+  return bytes;
+}
+
+function sameIds(a: number[] | undefined, b: number[]): boolean {
+  return !!a && a.length === b.length && a.every((id, i) => id === b[i]);
+}
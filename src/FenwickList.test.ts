@@ -21,6 +21,12 @@ class TracingStore<T> implements IStore {
   async set<K = unknown>(key: string, value: K): Promise<void> {
     await this.inner.set<K>(key, value);
   }
+  async delete(key: string): Promise<void> {
+    await this.inner.delete(key);
+  }
+  async list(prefix: string): Promise<string[]> {
+    return this.inner.list(prefix);
+  }
   reset(): void {
     this.activeGets = 0;
     this.maxActiveGets = 0;
@@ -85,6 +91,19 @@ describe("FenwickList (indexed)", () => {
     expect(await col.range(0, 5)).toEqual(expected);
   });
 
+  it("insertManyAt keeps later inserts in place when a segment splits", async () => {
+    const list = new FenwickList<string>(new MemoryStore(), { segmentCount: 4, chunkCount: 2 });
+    await list.insertManyAt([0, 1, 2, 3, 4, 5, 6, 7], ["a", "b", "c", "d", "e", "f", "g", "h"]);
+    await list.insertManyAt([1, 3, 9], ["X", "Y", "Z"]);
+    expect(await list.range(0, 11)).toEqual(["a", "X", "b", "Y", "c", "d", "e", "f", "g", "Z", "h"]);
+
+    // One segment growing far past segmentCount is cut until every piece fits
+    await list.insertManyAt(Array.from({ length: 12 }, (_, i) => i), Array.from({ length: 12 }, (_, i) => `n${i}`));
+    for (const seg of list.getMeta().segments) expect(seg.count).toBeLessThanOrEqual(4);
+    expect(list.length()).toBe(23);
+    expect(await list.get(12)).toBe("a");
+  });
+
   it("range(min,max) returns slice [min,max)", async () => {
     const store = new MemoryStore();
     const list = new FenwickList<number>(store, {
@@ -223,3 +242,289 @@ describe("FenwickList (indexed)", () => {
     expect(store.maxActiveGets).toBeGreaterThan(1);
   });
 });
+
+describe("FenwickList removal", () => {
+  it("removeAt returns the removed value and shifts later values", async () => {
+    const list = new FenwickList<number>(new MemoryStore(), { segmentCount: 4, chunkCount: 2 });
+    for (let i = 0; i < 10; i++) await list.insertAt(i, i);
+    expect(await list.removeAt(3)).toBe(3);
+    expect(await list.removeAt(0)).toBe(0);
+    expect(await list.removeAt(100)).toBeUndefined();
+    expect(list.length()).toBe(8);
+    expect(await list.range(0, 8)).toEqual([1, 2, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("removeRange across unloaded middle segments after a reload", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    for (let i = 0; i < 40; i++) await list.insertAt(i, i);
+    await list.flush();
+    const reloaded = new FenwickList<number>(store, structuredClone(list.getMeta()));
+    expect(await reloaded.removeRange(2, 30)).toBe(28);
+    expect(reloaded.length()).toBe(12);
+    const expected = [0, 1, ...Array.from({ length: 10 }, (_, i) => 30 + i)];
+    expect(await reloaded.range(0, 40)).toEqual(expected);
+    await reloaded.flush();
+    const again = new FenwickList<number>(store, reloaded.getMeta());
+    expect(again.length()).toBe(12);
+    expect(await again.range(0, 40)).toEqual(expected);
+  });
+
+  it("removeRange spans segments, drops empty ones and merges small ones", async () => {
+    const list = new FenwickList<number>(new MemoryStore(), { segmentCount: 8, chunkCount: 2 });
+    for (let i = 0; i < 64; i++) await list.insertAt(i, i);
+    const segmentsBefore = list.getMeta().segments.length;
+    expect(await list.removeRange(3, 60)).toBe(57);
+    expect(await list.range(0, 100)).toEqual([0, 1, 2, 60, 61, 62, 63]);
+    expect(list.length()).toBe(7);
+    expect(list.getMeta().segments.length).toBeLessThanOrEqual(2);
+    expect(segmentsBefore).toBeGreaterThan(2);
+    // Leaves [0] and [62, 63]: the underfull pair is merged into one segment
+    expect(await list.removeRange(1, 5)).toBe(4);
+    expect(list.getMeta().segments.map((s) => s.count)).toEqual([3]);
+    expect(await list.range(0, 10)).toEqual([0, 62, 63]);
+    expect(await list.removeRange(5, 5)).toBe(0);
+    expect(await list.removeRange(0, 100)).toBe(3);
+    expect(list.getMeta().segments).toEqual([]);
+    expect(await list.range(0, 10)).toEqual([]);
+
+    // Structure is reusable after becoming empty
+    await list.insertAt(0, 42);
+    expect(await list.range(0, 10)).toEqual([42]);
+  });
+
+  it("deletes survive flush and rehydration", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 8, chunkCount: 2 });
+    const model: number[] = [];
+    for (let i = 0; i < 200; i++) {
+      await list.insertAt(i, i);
+      model.push(i);
+    }
+    await list.flush();
+
+    let current = new FenwickList<number>(store, structuredClone(list.getMeta()));
+    let seed = 7;
+    const rand = (n: number) => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return seed % n;
+    };
+    for (let round = 0; round < 6; round++) {
+      for (let k = 0; k < 8; k++) {
+        const at = rand(model.length);
+        const len = 1 + rand(3);
+        expect(await current.removeRange(at, at + len)).toBe(model.splice(at, len).length);
+      }
+      await current.flush();
+      current = new FenwickList<number>(store, structuredClone(current.getMeta()));
+      expect(current.length()).toBe(model.length);
+      expect(await current.range(0, model.length)).toEqual(model);
+    }
+    const counts = current.getMeta().segments.map((s) => s.count);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(model.length);
+    const chunkSegments = current.getMeta().chunkSegments!;
+    expect(chunkSegments.flat().sort((a, b) => a - b)).toEqual(
+      current.getMeta().segments.map((s) => s.id!).sort((a, b) => a - b),
+    );
+    for (const ids of chunkSegments) expect(ids.length).toBeLessThanOrEqual(2);
+  });
+});
+
+describe("FenwickList setAt / setManyAt", () => {
+  it("overwrites values and rewrites only the touched chunks", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    for (let i = 0; i < 32; i++) await list.insertAt(i, i);
+    await list.flush();
+    const reloaded = new FenwickList<number>(store, structuredClone(list.getMeta()));
+    const before = [...reloaded.getMeta().chunks];
+
+    await reloaded.setAt(1, -1);
+    await reloaded.setManyAt([2, 3, 2], [-2, -3, -20]);
+    const written = await reloaded.flush();
+    const after = reloaded.getMeta().chunks;
+    expect(written.length).toBe(1);
+    expect(after[0]).not.toBe(before[0]!);
+    expect(after.slice(1)).toEqual(before.slice(1));
+
+    const again = new FenwickList<number>(store, reloaded.getMeta());
+    expect(await again.range(0, 5)).toEqual([0, -1, -20, -3, 4]);
+    expect(again.length()).toBe(32);
+  });
+
+  it("rejects out-of-range indexes and mismatched lengths", async () => {
+    const list = new FenwickList<number>(new MemoryStore(), { segmentCount: 4, chunkCount: 2 });
+    await list.insertAt(0, 1);
+    await expect(list.setAt(1, 5)).rejects.toThrow("out of range");
+    await expect(list.setAt(-1, 5)).rejects.toThrow("out of range");
+    await expect(list.setManyAt([0], [])).rejects.toThrow("same length");
+    expect(await list.get(0)).toBe(1);
+  });
+});
+
+describe("FenwickList segment stats", () => {
+  async function expectStatsMatch(list: FenwickList<number | undefined>): Promise<void> {
+    const all = await list.range(0, list.length());
+    let offset = 0;
+    for (const seg of list.getMeta().segments) {
+      const values = all.slice(offset, offset + seg.count);
+      offset += seg.count;
+      const present = values.filter((v) => v !== undefined) as number[];
+      const expected = present.length
+        ? [Math.min(...present), Math.max(...present), present.reduce((a, b) => a + b, 0)]
+        : [undefined, undefined, undefined];
+      expect([seg.min, seg.max, seg.sum]).toEqual(expected);
+      expect(seg.nullCount).toBe(values.length - present.length);
+    }
+  }
+
+  it("tracks min/max/nullCount/sum through inserts, splits, updates and removals", async () => {
+    const list = new FenwickList<number | undefined>(new MemoryStore(), { segmentCount: 4, chunkCount: 2 });
+    for (let i = 0; i < 20; i++) await list.insertAt(i, i % 5 === 0 ? undefined : i);
+    await list.insertAt(3, 100);
+    await list.insertManyAt([0, 7, 7, 22], [-5, undefined, 50, 8]);
+    await expectStatsMatch(list);
+
+    await list.setManyAt([1, 2], [undefined, 1000]);
+    await expectStatsMatch(list);
+
+    await list.removeRange(2, 9);
+    await list.removeAt(0);
+    await expectStatsMatch(list);
+  });
+
+  it("keeps stats across flush and backfills metas written without them", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number | undefined>(store, { segmentCount: 4, chunkCount: 2 });
+    await list.insertManyAt([0, 1, 2, 3, 4, 5], [3, undefined, 1, 4, 1, 5]);
+    await list.flush();
+    const meta = structuredClone(list.getMeta());
+    expect(meta.segments.map((s) => [s.min, s.max, s.nullCount, s.sum])).toEqual([
+      [1, 3, 1, 4],
+      [1, 5, 0, 10],
+    ]);
+
+    const legacy = structuredClone(meta);
+    legacy.segments = legacy.segments.map(({ count }) => ({ count }));
+    delete legacy.chunkSegments;
+    delete legacy.nextSegmentId;
+    const reloaded = new FenwickList<number | undefined>(store, legacy);
+    await reloaded.insertAt(6, 9);
+    // Only the segment that was loaded for the write gets its stats back
+    const [first, last] = reloaded.getMeta().segments;
+    expect(first!.nullCount).toBeUndefined();
+    expect([last!.min, last!.max, last!.nullCount, last!.sum]).toEqual([1, 9, 0, 19]);
+  });
+
+  it("orders strings and omits sum for non-numeric segments", async () => {
+    const list = new FenwickList<string>(new MemoryStore(), { segmentCount: 8, chunkCount: 2 });
+    await list.insertManyAt([0, 1, 2], ["pear", "apple", "zebra"]);
+    const [seg] = list.getMeta().segments;
+    expect(seg).toEqual({ count: 3, min: "apple", max: "zebra", nullCount: 0, sum: undefined });
+  });
+});
+
+describe("FenwickList aggregates", () => {
+  function expected(values: Array<number | undefined>) {
+    const present = values.filter((v) => v !== undefined) as number[];
+    const sum = present.reduce((a, b) => a + b, 0);
+    return { sum, count: present.length, avg: present.length ? sum / present.length : undefined };
+  }
+
+  it("answers sum/count/avg over arbitrary index ranges", async () => {
+    const list = new FenwickList<number | undefined>(new MemoryStore(), { segmentCount: 4, chunkCount: 2 });
+    const model: Array<number | undefined> = [];
+    for (let i = 0; i < 37; i++) {
+      const v = i % 7 === 3 ? undefined : i * 3 - 20;
+      const at = (i * 11) % (model.length + 1);
+      await list.insertAt(at, v);
+      model.splice(at, 0, v);
+      // Interleave queries with single inserts so the tree is updated in place
+      if (i % 5 === 0) expect(await list.aggregate(0, model.length)).toEqual(expected(model));
+    }
+    for (const [a, b] of [[0, 37], [1, 36], [5, 6], [4, 8], [3, 30], [10, 10], [-3, 100], [36, 40]] as const) {
+      expect(await list.aggregate(a, b)).toEqual(expected(model.slice(Math.max(0, a), b)));
+    }
+    expect(await list.sum(2, 9)).toBe(expected(model.slice(2, 9)).sum);
+    expect(await list.count(0, 37)).toBe(model.filter((v) => v !== undefined).length);
+    expect(await list.avg(20, 20)).toBeUndefined();
+
+    await list.setManyAt([0, 20], [1000, undefined]);
+    model[0] = 1000;
+    model[20] = undefined;
+    await list.removeRange(5, 9);
+    model.splice(5, 4);
+    expect(await list.aggregate(0, model.length)).toEqual(expected(model));
+    expect(await list.aggregate(3, 17)).toEqual(expected(model.slice(3, 17)));
+  });
+
+  it("reads only edge segments once stats are known", async () => {
+    const store = new TracingStore<number>(0);
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 1 });
+    await list.insertManyAt(Array.from({ length: 40 }, (_, i) => i), Array.from({ length: 40 }, (_, i) => i));
+    await list.flush();
+    const reloaded = new FenwickList<number>(store, structuredClone(list.getMeta()));
+    store.reset();
+    // Segments hold at least two values, so only the first and last are partial
+    expect(await reloaded.sum(1, 39)).toBe((1 + 38) * 19);
+    expect(store.totalGets).toBe(2);
+    store.reset();
+    expect(await reloaded.count(0, 40)).toBe(40);
+    expect(store.totalGets).toBe(0);
+  });
+});
+
+describe("FenwickList.bulkLoad", () => {
+  it("appends values with segment stats and persists them", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number | undefined>(store, { segmentCount: 4, chunkCount: 2 });
+    await list.insertAt(0, 7);
+    await list.bulkLoad([1, undefined, 3, 4, 5, 6]);
+    expect(list.getMeta().segments.map((s) => [s.count, s.nullCount, s.sum])).toEqual([
+      [4, 1, 11],
+      [3, 0, 15],
+    ]);
+    expect(await list.sum(0, 7)).toBe(26);
+    await list.flush();
+    const reloaded = new FenwickList<number | undefined>(store, structuredClone(list.getMeta()));
+    expect(await reloaded.range(0, 7)).toEqual([7, 1, undefined, 3, 4, 5, 6]);
+  });
+});
+
+describe("FenwickBase.iterate", () => {
+  it("yields segment-sized batches covering [min, max)", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 8, chunkCount: 1 });
+    for (let i = 0; i < 100; i++) await list.insertAt(i, i);
+    await list.flush();
+    const reloaded = new FenwickList<number>(store, list.getMeta());
+
+    const batches: number[][] = [];
+    for await (const batch of reloaded.iterate(5, 77)) batches.push(batch);
+    expect(batches.length).toBeGreaterThan(1);
+    for (const batch of batches) expect(batch.length).toBeLessThanOrEqual(8);
+    expect(batches.flat()).toEqual(Array.from({ length: 72 }, (_, i) => i + 5));
+
+    const all: number[] = [];
+    for await (const batch of reloaded.iterate()) all.push(...batch);
+    expect(all).toEqual(await reloaded.range(0, 100));
+
+    for await (const _ of reloaded.iterate(50, 50)) throw new Error("expected no batches");
+  });
+
+  it("prefetches the next segment while the consumer works", async () => {
+    const store = new TracingStore<number>(5);
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 1 });
+    for (let i = 0; i < 40; i++) await list.insertAt(i, i);
+    await list.flush();
+    const reloaded = new FenwickList<number>(store, list.getMeta());
+    store.reset();
+
+    const iter = reloaded.iterate(0, 40);
+    const first = await iter.next();
+    expect(first.value).toBeDefined();
+    // The second segment's chunk load is already in flight
+    expect(store.totalGets).toBe(2);
+    await iter.return(undefined);
+  });
+});
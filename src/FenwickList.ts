@@ -5,7 +5,32 @@ import {
   type FenwickBaseMeta,
 } from "./FenwickBase";
 
-type Segment<T> = BaseSegment<T>;
+/**
+ * Zone-map statistics kept on every segment so filters and aggregates can
+ * skip or answer whole segments without loading their chunk. Missing values
+ * (null/undefined) only count towards `nullCount`; `sum` is only present when
+ * the segment holds at least one number. Metas written before stats existed
+ * lack these fields until the segment is next loaded.
+ */
+export type SegmentStats<T> = {
+  min?: T;
+  max?: T;
+  nullCount?: number;
+  sum?: number;
+};
+
+type Segment<T> = BaseSegment<T> & SegmentStats<T>;
+
+/** Result of `FenwickList.aggregate`; `count` excludes missing values. */
+export type RangeAggregate = {
+  sum: number;
+  count: number;
+  // undefined when the range holds no values
+  avg: number | undefined;
+};
+
+// Fenwick trees over per-segment sums and non-missing value counts
+type AggregateTree = { sums: number[]; counts: number[] };
 
 type FenwickListMeta<T> = FenwickBaseMeta<T, Segment<T>>;
 
@@ -19,6 +44,45 @@ function getDefaults<T>(meta: Partial<FenwickListMeta<T>>): FenwickListMeta<T> {
   } as FenwickListMeta<T>;
 }
 
+function computeStats<T>(data: T[]): SegmentStats<T> {
+  const stats: SegmentStats<T> = { min: undefined, max: undefined, nullCount: 0, sum: undefined };
+  for (const v of data) addToStats(stats, v);
+  return stats;
+}
+
+function addToStats<T>(stats: SegmentStats<T>, value: T | undefined): void {
+  if (value === undefined || value === null) {
+    stats.nullCount = (stats.nullCount ?? 0) + 1;
+    return;
+  }
+  if (stats.min == null || value < stats.min) stats.min = value;
+  if (stats.max == null || value > stats.max) stats.max = value;
+  if (typeof value === "number") stats.sum = (stats.sum ?? 0) + value;
+}
+
+function buildTree(values: number[]): number[] {
+  const tree = values.slice();
+  for (let i = 0; i < tree.length; i++) {
+    const j = i + ((i + 1) & -(i + 1));
+    if (j < tree.length) tree[j] = (tree[j] as number) + (tree[i] as number);
+  }
+  return tree;
+}
+
+function treeAdd(tree: number[], index: number, delta: number): void {
+  for (let i = index + 1; i <= tree.length; i += i & -i) {
+    tree[i - 1] = (tree[i - 1] as number) + delta;
+  }
+}
+
+function treePrefix(tree: number[], endExclusive: number): number {
+  let sum = 0;
+  for (let i = Math.min(endExclusive, tree.length); i > 0; i -= i & -i) {
+    sum += tree[i - 1] as number;
+  }
+  return sum;
+}
+
 // Helper: sort pairs by target index asc, then by original order asc, and annotate stable rank
 type InsertPair<T> = { idx: number; val: T | undefined; order: number; rank?: number };
 function sortAndRankInsertPairs<T>(pairs: Array<InsertPair<T>>): void {
@@ -27,19 +91,166 @@ function sortAndRankInsertPairs<T>(pairs: Array<InsertPair<T>>): void {
 }
 
 export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
+  // Built on first aggregate; dropped whenever segments are restructured
+  private aggregateTree: AggregateTree | undefined;
+
   constructor(store: IStore, meta: Partial<FenwickListMeta<T>>) {
     super(store, getDefaults<T>(meta));
   }
 
+  override setMeta(meta: FenwickListMeta<T>): void {
+    super.setMeta(meta);
+    this.aggregateTree = undefined;
+  }
+
+  /**
+   * Sum, count and average of the numeric values in [minIndex, maxIndex).
+   * Whole segments are answered from the sum tree; only the two edge segments
+   * are read. Missing values are skipped and non-numbers add nothing to `sum`.
+   */
+  async aggregate(minIndex: number, maxIndex: number): Promise<RangeAggregate> {
+    const a = Math.max(0, minIndex);
+    const b = Math.min(maxIndex, this.totalCount);
+    if (!(b > a)) return { sum: 0, count: 0, avg: undefined };
+    const tree = await this.getAggregateTree();
+    const first = this.findByIndex(a);
+    const last = this.findByIndex(b - 1);
+    const s0 = first.segIndex;
+    const s1 = last.segIndex;
+    const lastSeg = this.meta.segments[s1] as Segment<T>;
+    // Edge segments only covered in part are read; the rest come from the tree
+    const partial: Array<{ segIndex: number; from: number; to: number }> = [];
+    let wholeFrom = s0;
+    let wholeTo = s1 + 1;
+    if (s0 === s1 && (first.localIndex > 0 || last.localIndex < lastSeg.count - 1)) {
+      partial.push({ segIndex: s0, from: first.localIndex, to: last.localIndex + 1 });
+      wholeTo = wholeFrom;
+    } else {
+      if (first.localIndex > 0) {
+        partial.push({ segIndex: s0, from: first.localIndex, to: Infinity });
+        wholeFrom = s0 + 1;
+      }
+      if (last.localIndex < lastSeg.count - 1) {
+        partial.push({ segIndex: s1, from: 0, to: last.localIndex + 1 });
+        wholeTo = s1;
+      }
+    }
+    let sum = treePrefix(tree.sums, wholeTo) - treePrefix(tree.sums, wholeFrom);
+    let count = treePrefix(tree.counts, wholeTo) - treePrefix(tree.counts, wholeFrom);
+    const arrays = await Promise.all(
+      partial.map((p) => this.getReadOnlyArrayForSegment(this.meta.segments[p.segIndex] as Segment<T>)),
+    );
+    for (let k = 0; k < partial.length; k++) {
+      const arr = arrays[k] as T[];
+      const { from, to } = partial[k]!;
+      for (let i = from; i < Math.min(to, arr.length); i++) {
+        const v = arr[i];
+        if (v === undefined || v === null) continue;
+        count += 1;
+        if (typeof v === "number") sum += v;
+      }
+    }
+    return { sum, count, avg: count > 0 ? sum / count : undefined };
+  }
+
+  async sum(minIndex: number, maxIndex: number): Promise<number> {
+    return (await this.aggregate(minIndex, maxIndex)).sum;
+  }
+
+  async count(minIndex: number, maxIndex: number): Promise<number> {
+    return (await this.aggregate(minIndex, maxIndex)).count;
+  }
+
+  async avg(minIndex: number, maxIndex: number): Promise<number | undefined> {
+    return (await this.aggregate(minIndex, maxIndex)).avg;
+  }
+
+  /**
+   * Bounds on the values in [minIndex, maxIndex) from segment stats alone:
+   * min, max and nullCount merged over every segment the range touches, so
+   * they may be looser than the range itself. Nothing is loaded; undefined
+   * while a touched segment has no stats yet.
+   */
+  rangeStats(minIndex: number, maxIndex: number): SegmentStats<T> | undefined {
+    const a = Math.max(0, minIndex);
+    const b = Math.min(maxIndex, this.totalCount);
+    const out: SegmentStats<T> = { min: undefined, max: undefined, nullCount: 0 };
+    if (!(b > a)) return out;
+    const s1 = this.findByIndex(b - 1).segIndex;
+    for (let s = this.findByIndex(a).segIndex; s <= s1; s++) {
+      const seg = this.meta.segments[s] as Segment<T>;
+      if (seg.nullCount === undefined) return undefined;
+      out.nullCount = (out.nullCount as number) + seg.nullCount;
+      if (seg.min != null && (out.min == null || seg.min < out.min)) out.min = seg.min;
+      if (seg.max != null && (out.max == null || seg.max > out.max)) out.max = seg.max;
+    }
+    return out;
+  }
+
   async insertAt(index: number, value: T): Promise<void> {
     await this.insertManyAt([index], [value]);
   }
 
+  /** Overwrites the value at `index`; only its segment is marked dirty. */
+  async setAt(index: number, value: T): Promise<void> {
+    await this.setManyAt([index], [value]);
+  }
+
+  /**
+   * Overwrites several values at once. Affected segments are loaded in
+   * parallel and only those are marked dirty, so flush rewrites only their chunks.
+   */
+  async setManyAt(indexes: number[], values: Array<T | undefined>): Promise<void> {
+    if (indexes.length !== values.length) {
+      throw new Error("indexes and values must have the same length");
+    }
+    const perSeg = new Map<number, Array<{ local: number; val: T | undefined }>>();
+    for (let i = 0; i < indexes.length; i++) {
+      const index = indexes[i] as number;
+      if (!Number.isInteger(index) || index < 0 || index >= this.totalCount) {
+        throw new Error(`Index ${index} out of range [0, ${this.totalCount})`);
+      }
+      const { segIndex, localIndex } = this.findByIndex(index);
+      let list = perSeg.get(segIndex);
+      if (!list) {
+        list = [];
+        perSeg.set(segIndex, list);
+      }
+      list.push({ local: localIndex, val: values[i] });
+    }
+
+    // Prefetch underlying chunks in parallel
+    await Promise.all(
+      Array.from(perSeg.keys()).map(async (segIndex) =>
+        this.getReadOnlyArrayForSegment(this.meta.segments[segIndex] as Segment<T>),
+      ),
+    );
+    for (const [segIndex, updates] of perSeg.entries()) {
+      const seg = this.meta.segments[segIndex] as Segment<T>;
+      const arr = await this.loadSegmentForWrite(seg);
+      // Later entries win when the same index is set twice
+      for (const { local, val } of updates) arr[local] = val as T;
+      this.updateSegmentMetadata(seg, arr);
+      this.dirty.add(seg);
+    }
+  }
+
+  /** Removes the value at `index` and returns it (undefined when out of range). */
+  async removeAt(index: number): Promise<T | undefined> {
+    if (index < 0 || index >= this.totalCount) return undefined;
+    const [removed] = await this.removeIndexRange(index, index + 1);
+    return removed;
+  }
+
+  /** Removes values in [min, max) by index; returns how many were removed. */
+  async removeRange(min: number, max: number): Promise<number> {
+    return (await this.removeIndexRange(min, max)).length;
+  }
+
   private async singleInsertAt(index: number, value: T): Promise<void> {
     const clamped = Math.max(0, Math.min(index, this.totalCount));
     if (this.meta.segments.length === 0) {
-      const seg: Segment<T> = { count: 1 } as Segment<T>;
-      this.createInitialSegment(seg, value);
+      this.createInitialSegment(this.createNewSegmentObject(1, [value]), value);
       return;
     }
 
@@ -47,22 +258,25 @@ export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
     if (clamped === this.totalCount) {
       const segIndex = this.meta.segments.length - 1;
       const seg = this.meta.segments[segIndex] as Segment<T>;
-      await this.ensureSegmentLoaded(seg);
-      const arr = this.getOrCreateArraySync(seg, true);
+      const arr = await this.loadSegmentForWrite(seg);
       arr.push(value);
+      addToStats(seg, value);
       seg.count += 1;
       this.totalCount += 1;
       this.dirty.add(seg);
       if (seg.count > this.meta.segmentCount) await this.splitSegment(segIndex);
-      else this.addFenwick(segIndex, 1);
+      else {
+        this.addFenwick(segIndex, 1);
+        this.addToAggregateTree(segIndex, value);
+      }
       return;
     }
 
     const { segIndex, localIndex } = this.findByIndex(clamped);
     const seg = this.meta.segments[segIndex] as Segment<T>;
-    await this.ensureSegmentLoaded(seg);
-    const arr = this.getOrCreateArraySync(seg, true);
+    const arr = await this.loadSegmentForWrite(seg);
     arr.splice(localIndex, 0, value);
+    addToStats(seg, value);
     seg.count += 1;
     this.totalCount += 1;
 
@@ -71,6 +285,7 @@ export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
       await this.splitSegment(segIndex);
     } else {
       this.addFenwick(segIndex, 1);
+      this.addToAggregateTree(segIndex, value);
     }
 
     this.dirty.add(seg);
@@ -99,7 +314,7 @@ export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
         const pos = Math.max(0, Math.min(p.idx, newArr.length));
         newArr.splice(pos, 0, p.val as T);
       }
-      const seg: Segment<T> = { count: newArr.length } as Segment<T>;
+      const seg = this.createNewSegmentObject(newArr.length, newArr);
       // Seed a new segment with the batch values
       this.meta.segments.push(seg);
       void this.getOrCreateArraySync(seg, true, newArr as unknown as T[]);
@@ -137,8 +352,7 @@ export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
         segIndex = Math.max(0, this.meta.segments.length - 1);
         const seg = this.meta.segments[segIndex] as Segment<T>;
         await this.ensureSegmentLoaded(seg);
-        const arr = this.getOrCreateArraySync(seg, true);
-        localIndex = arr.length;
+        localIndex = seg.count;
       } else {
         const found = this.findByIndex(m.oldIdx);
         segIndex = found.segIndex;
@@ -159,11 +373,13 @@ export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
       ),
     );
 
-    // Apply per-segment merges
-    for (const [segIndex, inserts] of perSeg.entries()) {
+    // Apply per-segment merges from the last segment down, so splits only
+    // shift segments that are already done
+    const segIndexes = Array.from(perSeg.keys()).sort((a, b) => b - a);
+    for (const segIndex of segIndexes) {
+      const inserts = perSeg.get(segIndex)!;
       const seg = this.meta.segments[segIndex] as Segment<T>;
-      await this.ensureSegmentLoaded(seg);
-      const arr = this.getOrCreateArraySync(seg, true);
+      const arr = await this.loadSegmentForWrite(seg);
 
       // Sort by local position asc; for equal local, process earlier pairs first (rank asc)
       inserts.sort((a, b) => (a.local - b.local) || (a.rank - b.rank));
@@ -200,11 +416,17 @@ export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
       arr.length = 0;
       Array.prototype.push.apply(arr, newArr as unknown as T[]);
       seg.count = arr.length;
+      for (const ins of inserts) addToStats(seg, ins.val);
       this.dirty.add(seg);
 
-      // Split if necessary (may need multiple splits)
-      while (seg.count > this.meta.segmentCount) {
-        await this.splitSegment(segIndex);
+      // Split until every piece fits; each split adds one piece to check
+      for (let k = segIndex, end = segIndex; k <= end; ) {
+        if ((this.meta.segments[k] as Segment<T>).count > this.meta.segmentCount) {
+          await this.splitSegment(k);
+          end++;
+        } else {
+          k++;
+        }
       }
     }
 
@@ -212,4 +434,49 @@ export class FenwickList<T> extends FenwickBase<T, Segment<T>> {
     this.totalCount += indexes.length;
     this.rebuildIndices();
   }
+
+
+  protected override rebuildIndices(): void {
+    super.rebuildIndices();
+    this.aggregateTree = undefined;
+  }
+
+  protected override async ensureSegmentLoaded(segment: Segment<T>): Promise<void> {
+    await super.ensureSegmentLoaded(segment);
+    await this.backfillStats(segment);
+  }
+
+  protected override updateSegmentMetadata(segment: Segment<T>, data: T[]): void {
+    Object.assign(segment, computeStats(data));
+    this.aggregateTree = undefined;
+  }
+
+  protected override createNewSegmentObject(count: number, data: T[]): Segment<T> {
+    this.aggregateTree = undefined;
+    return { count, ...computeStats(data) };
+  }
+
+  // Fills in stats for segments persisted before they were tracked
+  private async backfillStats(segment: Segment<T>): Promise<void> {
+    if (segment.nullCount !== undefined) return;
+    Object.assign(segment, computeStats(await this.getReadOnlyArrayForSegment(segment)));
+  }
+
+  private async getAggregateTree(): Promise<AggregateTree> {
+    if (this.aggregateTree) return this.aggregateTree;
+    await Promise.all(this.meta.segments.map((seg) => this.backfillStats(seg)));
+    const segments = this.meta.segments;
+    const tree = {
+      sums: buildTree(segments.map((seg) => seg.sum ?? 0)),
+      counts: buildTree(segments.map((seg) => seg.count - (seg.nullCount ?? 0))),
+    };
+    this.aggregateTree = tree;
+    return tree;
+  }
+
+  private addToAggregateTree(segIndex: number, value: T): void {
+    if (!this.aggregateTree || value === undefined || value === null) return;
+    treeAdd(this.aggregateTree.counts, segIndex, 1);
+    if (typeof value === "number") treeAdd(this.aggregateTree.sums, segIndex, value);
+  }
 }
@@ -20,6 +20,12 @@ class TracingStore<T> implements IStore {
   async set<K = unknown>(key: string, value: K): Promise<void> {
     await this.inner.set<K>(key, value);
   }
+  async delete(key: string): Promise<void> {
+    await this.inner.delete(key);
+  }
+  async list(prefix: string): Promise<string[]> {
+    return this.inner.list(prefix);
+  }
   reset(): void {
     this.activeGets = 0;
     this.maxActiveGets = 0;
@@ -208,3 +214,313 @@ describe("FenwickOrderedList", () => {
     expect(list.rebuildCalls).toBe(1);
   });
 });
+
+describe("FenwickOrderedList removal", () => {
+  it("remove deletes one occurrence and keeps segment min/max in sync", async () => {
+    const list = new FenwickOrderedList<number>(new MemoryStore(), { segmentCount: 4, chunkCount: 2 });
+    for (const v of [5, 1, 3, 3, 9, 7, 2, 8, 6, 4]) await list.insert(v);
+    expect(await list.remove(3)).toBe(true);
+    expect(await list.remove(10)).toBe(false);
+    expect(await list.remove(0)).toBe(false);
+    expect(await list.remove(1)).toBe(true);
+    expect(await list.remove(9)).toBe(true);
+    expect(await list.range(0, 100)).toEqual([2, 3, 4, 5, 6, 7, 8]);
+    for (const seg of list.getMeta().segments) {
+      expect(seg.count).toBeGreaterThan(0);
+    }
+    const segs = list.getMeta().segments;
+    expect(segs[0]!.min).toBe(2);
+    expect(segs[segs.length - 1]!.max).toBe(8);
+    expect(await list.scan(3, 6)).toEqual([3, 4, 5]);
+  });
+
+  it("removeRange across unloaded middle segments after a reload", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    for (let i = 0; i < 40; i++) await list.insert(i);
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+    expect(await reloaded.removeRange(2, 30)).toBe(28);
+    expect(reloaded.length()).toBe(12);
+    const expected = [0, 1, ...Array.from({ length: 10 }, (_, i) => 30 + i)];
+    expect(await reloaded.scan(undefined, undefined)).toEqual(expected);
+    await reloaded.flush();
+    const again = new FenwickOrderedList<number>(store, reloaded.getMeta());
+    expect(again.length()).toBe(12);
+    expect(await again.scan(undefined, undefined)).toEqual(expected);
+  });
+
+  it("removeRange uses [min, max) semantics", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 8, chunkCount: 2 });
+    for (let i = 0; i < 100; i++) await list.insert(i % 50);
+    expect(await list.removeRange(10, 40)).toBe(60);
+    expect(await list.removeRange(40, 10)).toBe(0);
+    expect(list.length()).toBe(40);
+    expect(await list.scan(0, 100)).toEqual(
+      [...Array.from({ length: 10 }, (_, i) => [i, i]), ...Array.from({ length: 10 }, (_, i) => [40 + i, 40 + i])].flat(),
+    );
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+    expect(await reloaded.scan(5, 45)).toEqual([5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 40, 40, 41, 41, 42, 42, 43, 43, 44, 44]);
+    expect(await reloaded.getIndex(40)).toBe(20);
+    expect(await reloaded.remove(40)).toBe(true);
+    await reloaded.flush();
+    const again = new FenwickOrderedList<number>(store, reloaded.getMeta());
+    expect(await again.scan(39, 42)).toEqual([40, 41, 41]);
+  });
+});
+
+describe("FenwickOrderedList.scanIter", () => {
+  it("streams the same values as scan", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    for (let i = 0; i < 60; i++) await list.insert((i * 37) % 50);
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, list.getMeta());
+    for (const [min, max] of [[0, 50], [3, 17], [10, 11], [49, 100], [20, 10]] as const) {
+      const streamed: number[] = [];
+      for await (const batch of reloaded.scanIter(min, max)) streamed.push(...batch);
+      expect(streamed).toEqual(await reloaded.scan(min, max));
+    }
+  });
+});
+
+describe("FenwickOrderedList.bulkLoad", () => {
+  it("cuts sorted input into full segments and keeps accepting inserts", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 8, chunkCount: 4 });
+    const values = Array.from({ length: 50 }, (_, i) => i * 2);
+    await list.bulkLoad(values);
+    const segments = list.getMeta().segments;
+    expect(segments.map((s) => s.count)).toEqual([8, 8, 8, 8, 8, 8, 2]);
+    expect(segments[1]).toMatchObject({ min: 16, max: 30 });
+
+    // Appending more tops up the last segment first
+    await list.bulkLoad([100, 100, 101]);
+    expect(list.getMeta().segments.at(-1)).toMatchObject({ count: 5, min: 96, max: 101 });
+
+    await list.insert(31);
+    await list.flush();
+    expect(list.getMeta().chunks.length).toBe(2);
+    const reloaded = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+    expect(await reloaded.scan(28, 36)).toEqual([28, 30, 31, 32, 34]);
+    expect(reloaded.length()).toBe(54);
+  });
+
+  it("rejects unsorted input or input below the current maximum", async () => {
+    const list = new FenwickOrderedList<number>(new MemoryStore(), { segmentCount: 4, chunkCount: 2 });
+    await expect(list.bulkLoad([1, 3, 2])).rejects.toThrow("out of order");
+    expect(list.length()).toBe(0);
+    await list.bulkLoad([5, 6]);
+    await expect(list.bulkLoad([4])).rejects.toThrow("out of order");
+    expect(await list.range(0, 10)).toEqual([5, 6]);
+  });
+});
+
+describe("FenwickOrderedList.insertMany", () => {
+  it("returns final positions in input order, matching the merged list", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    expect(await list.insertMany([30, 10, 20])).toEqual([2, 0, 1]);
+    for (const v of [40, 50, 60]) await list.insert(v);
+
+    const batch = [65, 5, 35, 35, 10, 25, 70, 0];
+    const positions = await list.insertMany(batch);
+    const all = await list.range(0, list.length());
+    expect(all).toEqual([0, 5, 10, 10, 20, 25, 30, 35, 35, 40, 50, 60, 65, 70]);
+    positions.forEach((p, i) => expect(all[p]).toBe(batch[i]!));
+    expect(new Set(positions).size).toBe(batch.length);
+    // Equal values keep input order and go before existing ones
+    expect(positions.slice(2, 5)).toEqual([7, 8, 2]);
+  });
+
+  it("splits oversized segments into even pieces and persists them", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2 });
+    await list.insertMany([0, 100]);
+    const batch = Array.from({ length: 17 }, (_, i) => 99 - i * 5);
+    const positions = await list.insertMany(batch);
+    expect(list.getMeta().segments.map((s) => s.count)).toEqual([3, 4, 4, 4, 4]);
+    expect(positions[0]).toBe(17);
+    expect(positions.at(-1)).toBe(1);
+
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+    expect(await reloaded.range(0, 19)).toEqual([0, ...batch.slice().reverse(), 100]);
+  });
+});
+
+describe("FenwickOrderedList unique mode", () => {
+  it("rejects duplicates without changing anything", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 2, unique: "reject" });
+    await list.insertMany([3, 1, 2]);
+    await expect(list.insert(2)).rejects.toThrow("Duplicate value 2");
+    await expect(list.insertMany([5, 4, 5])).rejects.toThrow("Duplicate value 5");
+    await expect(list.insertMany([6, 1])).rejects.toThrow("Duplicate value 1");
+    await expect(list.bulkLoad([7, 7])).rejects.toThrow("Duplicate value 7");
+    expect(await list.range(0, 10)).toEqual([1, 2, 3]);
+
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+    expect(reloaded.uniqueMode()).toBe("reject");
+    await expect(reloaded.insert(3)).rejects.toThrow("Duplicate value 3");
+  });
+
+  it("ignores or replaces duplicates and reports them as -1", async () => {
+    const cmp = (a: [number, string], b: [number, string]) => a[0] - b[0];
+    const ignore = new FenwickOrderedList<[number, string]>(new MemoryStore(), { segmentCount: 4, unique: "ignore" }, cmp);
+    await ignore.insertMany([[1, "a"], [2, "b"]]);
+    expect(await ignore.insert([1, "x"])).toBe(-1);
+    expect(await ignore.insertMany([[3, "c"], [2, "y"], [3, "z"]])).toEqual([2, -1, -1]);
+    expect(await ignore.range(0, 10)).toEqual([[1, "a"], [2, "b"], [3, "c"]]);
+
+    const replace = new FenwickOrderedList<[number, string]>(new MemoryStore(), { segmentCount: 4, unique: "replace" }, cmp);
+    await replace.insertMany([[1, "a"], [2, "b"]]);
+    expect(await replace.insert([1, "x"])).toBe(-1);
+    expect(await replace.insertMany([[3, "c"], [2, "y"], [3, "z"]])).toEqual([-1, -1, 2]);
+    expect(await replace.range(0, 10)).toEqual([[1, "x"], [2, "y"], [3, "z"]]);
+    expect(await replace.indexOf([2, ""])).toBe(1);
+    expect(await replace.indexOf([4, ""])).toBe(-1);
+  });
+
+  it("replaces across persisted segments under tight cache limits", async () => {
+    const store = new MemoryStore();
+    const cmp = (a: [number, string], b: [number, string]) => a[0] - b[0];
+    const list = new FenwickOrderedList<[number, string]>(store, { segmentCount: 4, chunkCount: 1, unique: "replace" }, cmp);
+    await list.insertMany(Array.from({ length: 32 }, (_, i): [number, string] => [i * 2, "old"]));
+    await list.flush();
+    const reloaded = new FenwickOrderedList<[number, string]>(store, list.getMeta(), cmp);
+    reloaded.setCacheLimits({ maxSegments: 1, maxChunks: 1 });
+
+    const batch = Array.from({ length: 16 }, (_, i): [number, string] => [i * 4 + (i % 2), "new"]);
+    await reloaded.insertMany(batch);
+    await reloaded.flush();
+
+    const expected = new Map<number, string>(Array.from({ length: 32 }, (_, i) => [i * 2, "old"]));
+    for (const [k, v] of batch) expected.set(k, v);
+    const again = new FenwickOrderedList<[number, string]>(store, reloaded.getMeta(), cmp);
+    expect(await again.range(0, 100)).toEqual([...expected.entries()].sort((a, b) => a[0] - b[0]));
+  });
+});
+
+describe("FenwickOrderedList rank queries", () => {
+  it("answers upperBound, count and quantiles from the edge segments only", async () => {
+    const store = new TracingStore(0);
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 8, chunkCount: 1 });
+    // 0..99 with every multiple of 10 duplicated
+    const values = Array.from({ length: 100 }, (_, i) => i)
+      .flatMap((v) => (v % 10 === 0 ? [v, v] : [v]));
+    await list.bulkLoad(values);
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+    store.reset();
+
+    expect(await reloaded.getIndex(20)).toBe(22);
+    expect(await reloaded.upperBound(20)).toBe(24);
+    expect(await reloaded.upperBound(-1)).toBe(0);
+    expect(await reloaded.upperBound(1000)).toBe(values.length);
+    store.reset();
+    expect(await reloaded.count(50, 70)).toBe(22);
+    expect(store.totalGets).toBe(2);
+    expect(await reloaded.count(30, 10)).toBe(0);
+
+    const n = values.length;
+    store.reset();
+    expect(await reloaded.quantile(0.75)).toBe(values[Math.ceil(0.75 * n) - 1]!);
+    expect(store.totalGets).toBe(1);
+    for (const q of [0, 0.5, 0.95, 0.99, 1]) {
+      expect(await reloaded.quantile(q)).toBe(values[Math.max(1, Math.ceil(q * n)) - 1]!);
+    }
+    expect(await reloaded.median()).toBe(values[Math.ceil(n / 2) - 1]!);
+    await expect(reloaded.quantile(1.5)).rejects.toThrow("out of range");
+    expect(await new FenwickOrderedList<number>(new MemoryStore(), {}).median()).toBeUndefined();
+  });
+
+  it("counts across segments under tight cache limits", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 8, chunkCount: 1 });
+    await list.bulkLoad(Array.from({ length: 100 }, (_, i) => i));
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, list.getMeta());
+    reloaded.setCacheLimits({ maxSegments: 1, maxChunks: 1 });
+
+    const [wide, narrow, mid] = await Promise.all([
+      reloaded.count(5, 95),
+      reloaded.count(20, 21),
+      reloaded.count(60, 70),
+      reloaded.insert(150),
+    ]);
+    expect([wide, narrow, mid]).toEqual([90, 1, 10]);
+    expect(reloaded.getCacheStats().chunks).toBeLessThanOrEqual(1);
+    await reloaded.flush();
+    const again = new FenwickOrderedList<number>(store, reloaded.getMeta());
+    expect(await again.count(0, 200)).toBe(101);
+  });
+});
+
+describe("FenwickOrderedList scan options", () => {
+  async function build(store: IStore = new MemoryStore()) {
+    const list = new FenwickOrderedList<number>(store, { segmentCount: 4, chunkCount: 1 });
+    // 0..19 with 10 three times
+    await list.bulkLoad([...Array.from({ length: 10 }, (_, i) => i), 10, 10, ...Array.from({ length: 10 }, (_, i) => 10 + i)]);
+    return list;
+  }
+
+  it("supports inclusive/exclusive and open bounds", async () => {
+    const list = await build();
+    expect(await list.scan(8, 11)).toEqual([8, 9, 10, 10, 10]);
+    expect(await list.scan(8, 11, { minInclusive: false })).toEqual([9, 10, 10, 10]);
+    expect(await list.scan(8, 11, { maxInclusive: true })).toEqual([8, 9, 10, 10, 10, 11]);
+    expect(await list.scan(10, 10, { maxInclusive: true })).toEqual([10, 10, 10]);
+    expect(await list.scan(10, 10, { minInclusive: false, maxInclusive: true })).toEqual([]);
+    expect(await list.scan(undefined, 2)).toEqual([0, 1]);
+    expect(await list.scan(18, undefined)).toEqual([18, 19]);
+    expect((await list.scan(undefined, undefined)).length).toBe(22);
+  });
+
+  it("reverses and limits from the requested end", async () => {
+    const list = await build();
+    expect(await list.scan(undefined, 10, { reverse: true, limit: 3 })).toEqual([9, 8, 7]);
+    expect(await list.scan(5, undefined, { limit: 2 })).toEqual([5, 6]);
+    expect(await list.scan(5, 8, { reverse: true })).toEqual([7, 6, 5]);
+    expect(await list.scan(5, 8, { limit: 0 })).toEqual([]);
+
+    const batches: number[][] = [];
+    for await (const batch of list.scanIter(3, 12, { reverse: true, maxInclusive: true })) batches.push(batch);
+    expect(batches.flat()).toEqual([12, 11, 10, 10, 10, 9, 8, 7, 6, 5, 4, 3]);
+    expect(batches.length).toBeGreaterThan(1);
+  });
+
+  it("reads only the last segments for a reverse limited scan", async () => {
+    const store = new TracingStore(0);
+    const list = await build(store);
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, structuredClone(list.getMeta()));
+    store.reset();
+    expect(await reloaded.scan(undefined, 19, { reverse: true, limit: 2 })).toEqual([18, 17]);
+    expect(store.totalGets).toBeLessThanOrEqual(2);
+  });
+
+  it("scans with concurrent writes under tight cache limits", async () => {
+    const store = new MemoryStore();
+    const list = await build(store);
+    await list.flush();
+    const reloaded = new FenwickOrderedList<number>(store, list.getMeta());
+    reloaded.setCacheLimits({ maxSegments: 1, maxChunks: 1 });
+
+    const [low, high, reversed] = await Promise.all([
+      reloaded.scan(2, 6),
+      reloaded.scan(14, 17, { maxInclusive: true }),
+      reloaded.scan(8, 11, { reverse: true }),
+      reloaded.insert(30),
+    ]);
+    expect(low).toEqual([2, 3, 4, 5]);
+    expect(high).toEqual([14, 15, 16, 17]);
+    expect(reversed).toEqual([10, 10, 10, 9, 8]);
+    await reloaded.flush();
+    const again = new FenwickOrderedList<number>(store, reloaded.getMeta());
+    expect(await again.scan(18, undefined)).toEqual([18, 19, 30]);
+  });
+});
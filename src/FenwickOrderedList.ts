@@ -4,16 +4,33 @@ import {
   type BaseSegment,
   type FenwickBaseMeta,
 } from "./FenwickBase";
+import { getComparator, type Comparator } from "./Comparator";
 
 type Segment<T> = BaseSegment<T> & { min: T; max: T };
 
-function defaultCmp<T>(a: T, b: T): number {
-  const aVal = a as unknown as number | string | bigint;
-  const bVal = b as unknown as number | string | bigint;
-  return aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-}
+export type ScanOptions = {
+  // Include values equal to min (default true)
+  minInclusive?: boolean;
+  // Include values equal to max (default false)
+  maxInclusive?: boolean;
+  // Return values in descending order
+  reverse?: boolean;
+  // Maximum number of values, taken from the end when reversed
+  limit?: number;
+};
+
+/**
+ * What an insert does when an equal value is already stored: throw, keep the
+ * stored value, or overwrite it with the new one.
+ */
+export type UniqueMode = "reject" | "ignore" | "replace";
 
-type FenwickOrderedListMeta<T> = FenwickBaseMeta<T, Segment<T>>;
+type FenwickOrderedListMeta<T> = FenwickBaseMeta<T, Segment<T>> & {
+  // Registered comparator name (see Comparator); absent means the default
+  comparator?: string;
+  // Set when values must be unique under the comparator
+  unique?: UniqueMode;
+};
 
 function getDefaults<T>(
   meta: Partial<FenwickOrderedListMeta<T>>,
@@ -28,21 +45,61 @@ function getDefaults<T>(
 }
 
 export class FenwickOrderedList<T> extends FenwickBase<T, Segment<T>> {
-  private cmp: (a: T, b: T) => number;
+  private cmp: Comparator<T>;
 
+  /**
+   * `cmp` is either a registered comparator name, which is recorded in the
+   * meta, or a function, which is not persisted. Without it the name in the
+   * meta is used; unknown names throw.
+   */
   constructor(
     store: IStore,
     meta: Partial<FenwickOrderedListMeta<T>>,
 
-    cmp?: (a: T, b: T) => number,
+    cmp?: Comparator<T> | string,
   ) {
     super(store, getDefaults<T>(meta));
 
-    // Initialize cmp
-    this.cmp = cmp || defaultCmp;
+    if (typeof cmp === "string") {
+      this.cmp = getComparator<T>(cmp);
+      (this.meta as FenwickOrderedListMeta<T>).comparator = cmp;
+    } else {
+      this.cmp = cmp ?? getComparator<T>((this.meta as FenwickOrderedListMeta<T>).comparator);
+    }
   }
 
+  override setMeta(meta: FenwickOrderedListMeta<T>): void {
+    // Resolve first so an unknown name leaves the current state untouched
+    const cmp = meta.comparator === undefined ? undefined : getComparator<T>(meta.comparator);
+    super.setMeta(meta);
+    if (cmp) this.cmp = cmp;
+  }
+
+  /** Compares two values with the column's comparator. */
+  compare(a: T, b: T): number {
+    return this.cmp(a, b);
+  }
+
+  /** Uniqueness mode recorded in the meta; undefined when duplicates are allowed. */
+  uniqueMode(): UniqueMode | undefined {
+    return (this.meta as FenwickOrderedListMeta<T>).unique;
+  }
+
+  /**
+   * Inserts `value` and returns its index. In unique mode an equal stored
+   * value makes this throw ("reject") or returns -1 without adding anything;
+   * "replace" overwrites the stored value first.
+   */
   async insert(value: T): Promise<number> {
+    const mode = this.uniqueMode();
+    if (mode) {
+      const existing = await this.indexOf(value);
+      if (existing >= 0) {
+        if (mode === "reject") throw new Error(`Duplicate value ${String(value)}`);
+        if (mode === "replace") await this.replaceAt(existing, value);
+        return -1;
+      }
+    }
     if (this.meta.segments.length === 0) {
       const seg: Segment<T> = { count: 1, min: value, max: value };
       this.createInitialSegment(seg, value);
@@ -52,8 +109,7 @@ export class FenwickOrderedList<T> extends FenwickBase<T, Segment<T>> {
     // locate segment: first with seg.max >= value
     const segIndex = this.findFirstSegmentByMaxLowerBound(value);
     const seg = this.meta.segments[segIndex] as Segment<T>;
-    await this.ensureSegmentLoaded(seg);
-    const arr = this.getOrCreateArraySync(seg, true);
+    const arr = await this.loadSegmentForWrite(seg);
 
     // lower_bound inside segment
     const localIndex = this.lowerBoundInArray(arr, value);
@@ -76,6 +132,169 @@ export class FenwickOrderedList<T> extends FenwickBase<T, Segment<T>> {
     return insertPos;
   }
 
+  /**
+   * Inserts a batch in one pass per affected segment and returns the final
+   * index of every value, in input order. The indexes are positions after the
+   * whole batch, as `FenwickList.insertManyAt` expects them. Equal values keep
+   * their input order and land before existing equal values.
+   *
+   * In unique mode duplicates, whether stored or within the batch, follow the
+   * mode: "reject" throws before anything changes, "ignore" keeps the first
+   * value and "replace" the last. Values not added get index -1.
+   */
+  async insertMany(values: T[]): Promise<number[]> {
+    return this.uniqueMode() ? this.insertManyUnique(values) : this.insertBatch(values);
+  }
+
+  private async insertBatch(values: T[]): Promise<number[]> {
+    const n = values.length;
+    if (n === 0) return [];
+    const order = Array.from({ length: n }, (_, i) => i);
+    order.sort((a, b) => this.cmp(values[a] as T, values[b] as T) || a - b);
+    const positions = new Array<number>(n);
+
+    if (this.meta.segments.length === 0) {
+      await this.bulkLoad(order.map((i) => values[i] as T));
+      for (let rank = 0; rank < n; rank++) positions[order[rank] as number] = rank;
+      return positions;
+    }
+
+    // Group the sorted batch by target segment; segment indexes only grow
+    const groups: Array<{ segIndex: number; from: number; to: number; before: number }> = [];
+    for (let k = 0; k < n; k++) {
+      const segIndex = this.findFirstSegmentByMaxLowerBound(values[order[k] as number] as T);
+      const last = groups[groups.length - 1];
+      if (last && last.segIndex === segIndex) last.to = k + 1;
+      else groups.push({ segIndex, from: k, to: k + 1, before: this.prefixSum(segIndex) });
+    }
+
+    let added = 0;
+    for (const g of groups) {
+      const seg = this.meta.segments[g.segIndex] as Segment<T>;
+      const arr = await this.loadSegmentForWrite(seg);
+      // Merge the sorted run into the segment
+      const merged: T[] = [];
+      let i = 0;
+      for (let k = g.from; k < g.to; k++) {
+        const value = values[order[k] as number] as T;
+        while (i < arr.length && this.cmp(arr[i] as T, value) < 0) merged.push(arr[i++] as T);
+        positions[order[k] as number] = g.before + added + merged.length;
+        merged.push(value);
+      }
+      while (i < arr.length) merged.push(arr[i++] as T);
+      for (let j = 0; j < merged.length; j++) arr[j] = merged[j] as T;
+      added += g.to - g.from;
+      seg.count = arr.length;
+      this.updateSegmentMetadata(seg, arr);
+      this.dirty.add(seg);
+    }
+
+    // Cut oversized segments into even pieces, back to front so indexes hold
+    const cap = this.meta.segmentCount;
+    for (let gi = groups.length - 1; gi >= 0; gi--) {
+      const segIndex = (groups[gi] as { segIndex: number }).segIndex;
+      const seg = this.meta.segments[segIndex] as Segment<T>;
+      if (seg.count <= cap) continue;
+      const arr = this.getOrCreateArraySync(seg, true);
+      // Like splitSegment, earlier pieces take the smaller share
+      const total = arr.length;
+      const parts = Math.ceil(total / cap);
+      const bound = (p: number) => Math.floor((p * total) / parts);
+      const rest = arr.splice(bound(1));
+      seg.count = arr.length;
+      this.updateSegmentMetadata(seg, arr);
+      const pieces: Segment<T>[] = [];
+      for (let p = 1; p < parts; p++) {
+        const piece = rest.slice(bound(p) - bound(1), bound(p + 1) - bound(1));
+        const newSeg = this.createNewSegmentObject(piece.length, piece);
+        void this.getOrCreateArraySync(newSeg, true, piece);
+        this.dirty.add(newSeg);
+        pieces.push(newSeg);
+      }
+      this.meta.segments.splice(segIndex + 1, 0, ...pieces);
+    }
+
+    this.totalCount += n;
+    this.rebuildIndices();
+    return positions;
+  }
+
+  // Resolves duplicates per the unique mode, then inserts the survivors
+  private async insertManyUnique(values: T[]): Promise<number[]> {
+    const mode = this.uniqueMode();
+    const order = Array.from({ length: values.length }, (_, i) => i);
+    order.sort((a, b) => this.cmp(values[a] as T, values[b] as T) || a - b);
+    // Input index of the value kept for each run of equal values
+    const keep: number[] = [];
+    for (let k = 0; k < order.length; ) {
+      let end = k + 1;
+      const value = values[order[k] as number] as T;
+      while (end < order.length && this.cmp(values[order[end] as number] as T, value) === 0) end++;
+      if (mode === "reject" && end - k > 1) throw new Error(`Duplicate value ${String(value)}`);
+      keep.push(order[mode === "replace" ? end - 1 : k] as number);
+      k = end;
+    }
+    // Look the values up one at a time so a cache limit holds during the batch
+    const existing: number[] = [];
+    for (const i of keep) existing.push(await this.indexOf(values[i] as T));
+    if (mode === "reject") {
+      const dup = existing.findIndex((index) => index >= 0);
+      if (dup >= 0) throw new Error(`Duplicate value ${String(values[keep[dup] as number])}`);
+    }
+
+    const fresh: number[] = [];
+    for (let k = 0; k < keep.length; k++) {
+      const index = existing[k] as number;
+      const i = keep[k] as number;
+      if (index < 0) fresh.push(i);
+      else if (mode === "replace") await this.replaceAt(index, values[i] as T);
+    }
+    fresh.sort((a, b) => a - b);
+    // None of these collide anymore
+    const inserted = await this.insertBatch(fresh.map((i) => values[i] as T));
+    const positions = new Array<number>(values.length).fill(-1);
+    fresh.forEach((i, k) => (positions[i] = inserted[k] as number));
+    return positions;
+  }
+
+  /** Index of a value equal to `value`, or -1 when none is stored. */
+  async indexOf(value: T): Promise<number> {
+    if (this.totalCount === 0) return -1;
+    const index = await this.getIndex(value);
+    if (index >= this.totalCount) return -1;
+    const found = await this.get(index);
+    return this.cmp(found as T, value) === 0 ? index : -1;
+  }
+
+  // Overwrites the value at `index` with one that compares equal to it
+  private async replaceAt(index: number, value: T): Promise<void> {
+    const { segIndex, localIndex } = this.findByIndex(index);
+    const seg = this.meta.segments[segIndex] as Segment<T>;
+    const arr = await this.loadSegmentForWrite(seg);
+    arr[localIndex] = value;
+    this.updateSegmentMetadata(seg, arr);
+    this.dirty.add(seg);
+  }
+
+  /** Removes one occurrence of `value`; returns false when it is not present. */
+  async remove(value: T): Promise<boolean> {
+    const index = await this.indexOf(value);
+    if (index < 0) return false;
+    await this.removeIndexRange(index, index + 1);
+    return true;
+  }
+
+  /**
+   * Removes all values v with min <= v < max (same [min, max) semantics as
+   * `scan`); returns how many were removed.
+   */
+  async removeRange(min: T, max: T): Promise<number> {
+    if (this.totalCount === 0 || this.cmp(min, max) >= 0) return 0;
+    const a = await this.getIndex(min);
+    const b = await this.getIndex(max);
+    return (await this.removeIndexRange(a, b)).length;
+  }
+
   override async get(index: number): Promise<T | undefined> {
     return super.get(index);
   }
@@ -88,31 +307,81 @@ export class FenwickOrderedList<T> extends FenwickBase<T, Segment<T>> {
    * Returns all values v such that min <= v < max, in sorted order.
    * Semantics are [min, max), i.e. max is exclusive. This matches common
    * library conventions (e.g. C++ lower_bound/upper_bound style ranges).
+   * An undefined bound leaves that end open; `opts` changes bound
+   * inclusivity, reverses the order and limits the result.
    */
-  async scan(min: T, max: T): Promise<T[]> {
-    const out: T[] = [];
-    if (this.meta.segments.length === 0) return out;
-    // find first segment that could contain min
-    let i = this.findFirstSegmentByMaxLowerBound(min);
-    // determine candidate range [i, j)
-    let j = i;
-    while (j < this.meta.segments.length) {
-      const s = this.meta.segments[j] as Segment<T>;
-      // [min, max) semantics: stop once the next segment's min >= max
-      if (this.cmp(s.min, max) >= 0) break;
-      j += 1;
-    }
-    // load all candidate arrays in parallel
-    const segs = this.meta.segments.slice(i, j) as Segment<T>[];
-    const arrays = await Promise.all(segs.map((s) => this.getReadOnlyArrayForSegment(s)));
-    for (let k = 0; k < arrays.length; k++) {
-      const arr = arrays[k] as T[];
-      const start = this.lowerBoundInArray(arr, min);
-      const end = this.lowerBoundInArray(arr, max);
-      if (start < end) out.push(...arr.slice(start, end));
-      if (end < arr.length) return out; // ended inside this segment
-    }
-    return out;
+  async scan(min: T | undefined, max: T | undefined, opts?: ScanOptions): Promise<T[]> {
+    const { start, end } = await this.scanBounds(min, max, opts);
+    if (end <= start) return [];
+    const out = await this.range(start, end);
+    return opts?.reverse ? out.reverse() : out;
+  }
+
+  /**
+   * Streaming variant of `scan`: yields batches of matching values one
+   * segment at a time, in descending order when `reverse` is set.
+   */
+  async *scanIter(min: T | undefined, max: T | undefined, opts?: ScanOptions): AsyncGenerator<T[]> {
+    const { start, end } = await this.scanBounds(min, max, opts);
+    if (end <= start) return;
+    if (!opts?.reverse) {
+      yield* this.iterate(start, end);
+      return;
+    }
+    for (let b = end; b > start; ) {
+      // Walk back to the start of the segment holding b - 1
+      const { localIndex } = this.findByIndex(b - 1);
+      const a = Math.max(start, b - 1 - localIndex);
+      yield (await this.range(a, b)).reverse();
+      b = a;
+    }
+  }
+
+  /**
+   * Index window [start, end) a scan with these bounds and options covers.
+   * With a limit the window keeps the first `limit` indexes, or the last ones
+   * when reversed, so only segments near that end are loaded.
+   */
+  async scanBounds(
+    min: T | undefined,
+    max: T | undefined,
+    opts?: ScanOptions,
+  ): Promise<{ start: number; end: number }> {
+    // Resolve the bounds one after the other, like count
+    const a =
+      min === undefined ? 0 : opts?.minInclusive === false ? await this.upperBound(min) : await this.getIndex(min);
+    const b =
+      max === undefined
+        ? this.totalCount
+        : opts?.maxInclusive
+          ? await this.upperBound(max)
+          : await this.getIndex(max);
+    let start = a;
+    let end = Math.max(a, b);
+    const limit = opts?.limit;
+    if (limit !== undefined && end - start > limit) {
+      if (opts?.reverse) start = end - Math.max(0, limit);
+      else end = start + Math.max(0, limit);
+    }
+    return { start, end };
+  }
+
+  /**
+   * Appends values that are already sorted and not below the current maximum,
+   * skipping the per-value search. Throws without changes otherwise, and on
+   * any duplicate in unique mode.
+   */
+  override async bulkLoad(values: T[]): Promise<void> {
+    const last = this.meta.segments[this.meta.segments.length - 1];
+    const unique = this.uniqueMode() !== undefined;
+    for (let i = 0; i < values.length; i++) {
+      const prev = i > 0 ? values[i - 1] : last?.max;
+      if (!(i > 0 || last)) continue;
+      const c = this.cmp(values[i] as T, prev as T);
+      if (c < 0) throw new Error(`bulkLoad values must be sorted; value at ${i} is out of order`);
+      if (c === 0 && unique) throw new Error(`Duplicate value ${String(values[i])}`);
+    }
+    await super.bulkLoad(values);
   }
 
   async getIndex(value: T): Promise<number> {
@@ -120,14 +389,51 @@ export class FenwickOrderedList<T> extends FenwickBase<T, Segment<T>> {
     // first segment with max >= value
     const segIndex = this.findFirstSegmentByMaxLowerBound(value);
     const s = this.meta.segments[segIndex] as Segment<T>;
-    await this.ensureSegmentLoaded(s);
-    const arr = this.getOrCreateArraySync(s, true);
+    const arr = await this.getReadOnlyArrayForSegment(s);
     // lower_bound in arr
     const local = this.lowerBoundInArray(arr, value);
     const before = this.prefixSum(segIndex);
     return before + local;
   }
 
+  /** Index of the first value greater than `value` (upper_bound). */
+  async upperBound(value: T): Promise<number> {
+    if (this.meta.segments.length === 0) return 0;
+    const segIndex = this.findFirstSegmentByMaxUpperBound(value);
+    if (segIndex >= this.meta.segments.length) return this.totalCount;
+    const arr = await this.getReadOnlyArrayForSegment(this.meta.segments[segIndex] as Segment<T>);
+    return this.prefixSum(segIndex) + this.upperBoundInArray(arr, value);
+  }
+
+  /**
+   * Number of values v with min <= v < max, from the bounds' positions alone;
+   * at most the two edge segments are loaded.
+   */
+  async count(min: T, max: T): Promise<number> {
+    if (this.totalCount === 0 || this.cmp(min, max) >= 0) return 0;
+    // One bound at a time, so a cache limit never has both edges in flight
+    const a = await this.getIndex(min);
+    const b = await this.getIndex(max);
+    return Math.max(0, b - a);
+  }
+
+  /**
+   * Nearest-rank quantile: the smallest value with at least `q` of all values
+   * at or below it (quantile(0) is the minimum, quantile(1) the maximum).
+   * Only the segment holding that rank is loaded. Undefined when empty.
+   */
+  async quantile(q: number): Promise<T | undefined> {
+    if (!(q >= 0 && q <= 1)) throw new Error(`Quantile ${q} out of range [0, 1]`);
+    if (this.totalCount === 0) return undefined;
+    const rank = Math.max(1, Math.ceil(q * this.totalCount));
+    return this.get(rank - 1);
+  }
+
+  /** Lower median (quantile 0.5). */
+  async median(): Promise<T | undefined> {
+    return this.quantile(0.5);
+  }
+
   protected override async ensureSegmentLoaded(
     segment: Segment<T>,
   ): Promise<void> {
@@ -173,6 +479,30 @@ export class FenwickOrderedList<T> extends FenwickBase<T, Segment<T>> {
     return Math.min(lo, this.meta.segments.length - 1);
   }
 
+  // First segment whose max is greater than value; segments.length when none
+  private findFirstSegmentByMaxUpperBound(value: T): number {
+    let lo = 0;
+    let hi = this.meta.segments.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const s = this.meta.segments[mid] as Segment<T>;
+      if (this.cmp(s.max, value) > 0) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+
+  private upperBoundInArray(arr: T[], value: T): number {
+    let lo = 0;
+    let hi = arr.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.cmp(arr[mid] as T, value) <= 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
   private lowerBoundInArray(arr: T[], value: T): number {
     let lo = 0;
     let hi = arr.length;
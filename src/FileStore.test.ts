@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, writeFile, mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileStore } from "./FileStore";
+import { Table } from "./Table";
+import { OrderedColumn } from "./Column";
+
+describe("FileStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "filestore-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("maps keys to nested files and round-trips values", async () => {
+    const store = await FileStore.open(dir);
+    await store.set("tables/team/project/x.meta", { a: 1, b: ["x", "y"] });
+    await store.set("chunk_3_abc", [[1, 2], [3]]);
+
+    expect(await store.get<{ a: number; b: string[] }>("tables/team/project/x.meta")).toEqual({ a: 1, b: ["x", "y"] });
+    expect(await store.get<number[][]>("chunk_3_abc")).toEqual([[1, 2], [3]]);
+    expect(await store.get("missing")).toBeUndefined();
+
+    // Meta is plain JSON on disk
+    const raw = await readFile(join(dir, "tables/team/project/x.meta"), "utf8");
+    expect(JSON.parse(raw)).toEqual({ a: 1, b: ["x", "y"] });
+  });
+
+  it("preserves undefined array slots and binary values", async () => {
+    const store = await FileStore.open(dir);
+    await store.set("chunk", [[1, undefined, 3], [undefined]]);
+    const chunk = await store.get<Array<Array<number | undefined>>>("chunk");
+    expect(chunk).toEqual([[1, undefined, 3], [undefined]]);
+    expect(chunk?.[0]?.[1]).toBeUndefined();
+
+    const bytes = new Uint8Array([0, 1, 2, 255]);
+    await store.set("bin", bytes);
+    expect(await store.get<Uint8Array>("bin")).toEqual(bytes);
+  });
+
+  it("rejects keys that escape the store directory", async () => {
+    const store = await FileStore.open(dir);
+    await expect(store.set("../outside", 1)).rejects.toThrow("Invalid store key");
+    await expect(store.get("a//b")).rejects.toThrow("Invalid store key");
+  });
+
+  it("leaves no temp files behind and open() removes stale ones", async () => {
+    const store = await FileStore.open(dir);
+    await store.set("a/b", 1);
+    await store.set("a/b", 2);
+    expect(await readdir(join(dir, "a"))).toEqual(["b"]);
+    expect(await store.get<number>("a/b")).toBe(2);
+
+    // Simulate a crash between write and rename
+    await mkdir(join(dir, "a"), { recursive: true });
+    await writeFile(join(dir, "a", "b.123_xyz.tmp"), "{");
+    await FileStore.open(dir);
+    expect(await readdir(join(dir, "a"))).toEqual(["b"]);
+  });
+
+  it("lists keys by prefix across directories and deletes them", async () => {
+    const store = await FileStore.open(dir);
+    await store.set("tables/t/p/a.meta", 1);
+    await store.set("tables/t/q/b.meta", 2);
+    await store.set("chunk_0_x", [[1]]);
+    await store.set("chunk_1_y", [[2]]);
+    expect(await store.list("chunk_")).toEqual(["chunk_0_x", "chunk_1_y"]);
+    expect(await store.list("tables/t/")).toEqual(["tables/t/p/a.meta", "tables/t/q/b.meta"]);
+    expect(await store.list("tables/t/p")).toEqual(["tables/t/p/a.meta"]);
+    expect(await store.list("nope/")).toEqual([]);
+
+    await store.delete("chunk_0_x");
+    await store.delete("chunk_0_x");
+    expect(await store.list("chunk_")).toEqual(["chunk_1_y"]);
+    expect(await store.get("chunk_0_x")).toBeUndefined();
+  });
+
+  it("reopens a directory and rehydrates a Table from its meta", async () => {
+    const store = await FileStore.open(dir);
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, { segmentCount: 4, chunkCount: 2 }) },
+      undefined,
+      { segmentCount: 4, chunkCount: 2 },
+    );
+    await table.insert([
+      { id: 3, name: "c" },
+      { id: 1, name: "a", score: 10 },
+      { id: 2, name: "b" },
+    ]);
+    await table.flush("tables/t/p/users.meta");
+
+    const reopened = await FileStore.open(dir);
+    const loaded = await Table.load<number>(reopened, "tables/t/p/users.meta");
+    expect(loaded).toBeDefined();
+    expect(await loaded!.range(0)).toEqual([
+      { id: 1, name: "a", score: 10 },
+      { id: 2, name: "b" },
+      { id: 3, name: "c" },
+    ]);
+    expect(await Table.load<number>(reopened, "tables/t/p/none.meta")).toBeUndefined();
+  });
+});
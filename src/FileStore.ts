@@ -0,0 +1,135 @@
+import { mkdir, open, readdir, readFile, rename, rm } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import type { IStore } from "./Store";
+import { decodeValue, encodeValue } from "./Serialize";
+
+const TMP_SUFFIX = ".tmp";
+
+/**
+ * Directory-backed store. Keys map to relative file paths, so
+ * `tables/team/project/x.meta` becomes `<dir>/tables/team/project/x.meta`.
+ *
+ * Every write goes to a temp file in the target directory, is fsynced, and is
+ * then renamed over the final path. A crash can leave a stray temp file behind
+ * but never a half-written value.
+ */
+export class FileStore implements IStore {
+  private readonly root: string;
+
+  constructor(dir: string) {
+    this.root = resolve(dir);
+  }
+
+  /**
+   * Opens (or creates) a store directory and removes temp files left behind by
+   * writes that never reached their rename.
+   */
+  static async open(dir: string): Promise<FileStore> {
+    const store = new FileStore(dir);
+    await mkdir(store.root, { recursive: true });
+    await store.removeStaleTempFiles(store.root);
+    return store;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    let bytes: Uint8Array;
+    try {
+      bytes = await readFile(this.pathForKey(key));
+    } catch (err) {
+      if (isNotFound(err)) return undefined;
+      throw err;
+    }
+    return decodeValue(bytes) as T;
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    const path = this.pathForKey(key);
+    const bytes = encodeValue(value);
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.${process.pid}_${Math.random().toString(36).slice(2, 8)}${TMP_SUFFIX}`;
+    const handle = await open(tmp, "w");
+    try {
+      await handle.writeFile(bytes);
+      await handle.sync();
+    } catch (err) {
+      await handle.close();
+      await rm(tmp, { force: true });
+      throw err;
+    }
+    await handle.close();
+    try {
+      await rename(tmp, path);
+    } catch (err) {
+      await rm(tmp, { force: true });
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathForKey(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    // Only walk the directory that fully contains the prefix
+    const slash = prefix.lastIndexOf("/");
+    const base = slash >= 0 ? prefix.slice(0, slash) : "";
+    const keys: string[] = [];
+    await this.collectKeys(base ? this.pathForKey(base) : this.root, base, prefix, keys);
+    return keys.sort();
+  }
+
+  private async collectKeys(
+    dir: string,
+    keyPrefix: string,
+    prefix: string,
+    out: string[],
+  ): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (err) {
+      if (isNotFound(err)) return;
+      throw err;
+    }
+    for (const entry of entries) {
+      const key = keyPrefix ? `${keyPrefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        // Skip subtrees that can't contain a match
+        if (prefix.startsWith(`${key}/`) || key.startsWith(prefix))
+          await this.collectKeys(join(dir, entry.name), key, prefix, out);
+      } else if (!entry.name.endsWith(TMP_SUFFIX) && key.startsWith(prefix)) {
+        out.push(key);
+      }
+    }
+  }
+
+  private pathForKey(key: string): string {
+    const parts = key.split("/");
+    for (const part of parts) {
+      if (
+        part === "" ||
+        part === "." ||
+        part === ".." ||
+        part.endsWith(TMP_SUFFIX) ||
+        part.includes("\\") ||
+        part.includes("\0")
+      ) {
+        throw new Error(`Invalid store key: "${key}"`);
+      }
+    }
+    return join(this.root, ...parts);
+  }
+
+  private async removeStaleTempFiles(dir: string): Promise<void> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) await this.removeStaleTempFiles(path);
+      else if (entry.name.endsWith(TMP_SUFFIX)) await rm(path, { force: true });
+    }
+  }
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === "ENOENT";
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "bun:test";
+import { MemoryStore } from "./Store";
+import { GarbageCollector, reachableChunkKeys } from "./GarbageCollector";
+import { FenwickList } from "./FenwickList";
+import { Table } from "./Table";
+import { OrderedColumn } from "./Column";
+
+function makeTable(store: MemoryStore): Table<number> {
+  return new Table<number>(
+    store,
+    { key: "id", column: new OrderedColumn<number>(store, { segmentCount: 4, chunkCount: 2 }) },
+    undefined,
+    { segmentCount: 4, chunkCount: 2 },
+  );
+}
+
+describe("MemoryStore delete/list", () => {
+  it("lists keys by prefix in sorted order and deletes them", async () => {
+    const store = new MemoryStore();
+    await store.set("b/2", 2);
+    await store.set("a/1", 1);
+    await store.set("b/1", 1);
+    expect(await store.list("b/")).toEqual(["b/1", "b/2"]);
+    expect(await store.list("")).toEqual(["a/1", "b/1", "b/2"]);
+    await store.delete("b/1");
+    await store.delete("missing");
+    expect(await store.list("b/")).toEqual(["b/2"]);
+    expect(await store.get("b/1")).toBeUndefined();
+  });
+});
+
+describe("GarbageCollector", () => {
+  it("deletes chunks orphaned by repeated flushes after the grace period", async () => {
+    const store = new MemoryStore();
+    const table = makeTable(store);
+    for (let i = 0; i < 5; i++) {
+      await table.insert([{ id: i, name: `n${i}` }]);
+      await table.flush("t.meta");
+    }
+    const meta = table.getMeta();
+    const live = reachableChunkKeys([meta]);
+    const before = await store.list("chunk_");
+    expect(before.length).toBeGreaterThan(live.size);
+
+    let clock = 1_000;
+    const gc = new GarbageCollector(store, { graceMs: 100, now: () => clock });
+    // First run only marks orphans
+    let result = await gc.collect([meta]);
+    expect(result.deleted).toEqual([]);
+    expect(result.pending).toBe(before.length - live.size);
+
+    // Still inside grace period
+    clock += 50;
+    expect((await gc.collect([meta])).deleted).toEqual([]);
+
+    clock += 50;
+    result = await gc.collect([meta]);
+    expect(result.deleted.length).toBe(before.length - live.size);
+    expect(result.pending).toBe(0);
+    expect(new Set(await store.list("chunk_"))).toEqual(live);
+
+    const reloaded = new Table<number>(store, meta);
+    expect((await reloaded.range(0)).map((r) => r.id)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("keeps chunks reachable from any of the given snapshots", async () => {
+    const store = new MemoryStore();
+    const table = makeTable(store);
+    await table.insert([{ id: 1, name: "a" }]);
+    await table.flush("t.meta");
+    const oldMeta = table.getMeta();
+    await table.insert([{ id: 2, name: "b" }]);
+    await table.flush("t.meta");
+    const newMeta = table.getMeta();
+
+    const gc = new GarbageCollector(store, { graceMs: 0 });
+    await gc.collect([oldMeta, newMeta]);
+    const result = await gc.collect([oldMeta, newMeta]);
+    expect(result.deleted).toEqual([]);
+
+    // A reader on the old snapshot still works
+    expect((await new Table<number>(store, oldMeta).range(0)).map((r) => r.name)).toEqual(["a"]);
+  });
+
+  it("accepts column metas and forgets orphans that become reachable again", async () => {
+    const store = new MemoryStore();
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 1 });
+    for (let i = 0; i < 8; i++) await list.insertAt(i, i);
+    await list.flush();
+    const meta = structuredClone(list.getMeta());
+
+    let clock = 0;
+    const gc = new GarbageCollector(store, { graceMs: 10, now: () => clock });
+    // Without the meta, everything looks orphaned
+    expect((await gc.collect([])).pending).toBe(meta.chunks.length);
+    clock += 5;
+    expect((await gc.collect([meta])).pending).toBe(0);
+    clock += 100;
+    expect((await gc.collect([meta])).deleted).toEqual([]);
+    expect(await new FenwickList<number>(store, meta).range(0, 8)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+});
@@ -0,0 +1,94 @@
+import type { IStore } from "./Store";
+import type { TableMeta } from "./Table";
+import {
+  CHUNK_KEY_PREFIX,
+  type BaseSegment,
+  type FenwickBaseMeta,
+} from "./FenwickBase";
+
+type AnyColumnMeta = FenwickBaseMeta<unknown, BaseSegment<unknown>>;
+
+export type GcResult = {
+  // Chunk keys referenced by at least one of the given snapshots
+  live: number;
+  // Orphans seen but still inside their grace period
+  pending: number;
+  deleted: string[];
+};
+
+/**
+ * Collects every chunk key referenced by the given table or column metas.
+ */
+export function reachableChunkKeys(
+  metas: Array<TableMeta<unknown> | AnyColumnMeta>,
+): Set<string> {
+  const keys = new Set<string>();
+  const addColumn = (meta: AnyColumnMeta | undefined) => {
+    for (const key of meta?.chunks ?? []) if (key) keys.add(key);
+  };
+  for (const meta of metas) {
+    if ("order" in meta) {
+      addColumn(meta.order.meta as AnyColumnMeta);
+      for (const col of Object.values(meta.columns.number ?? {}))
+        addColumn(col as AnyColumnMeta);
+      for (const col of Object.values(meta.columns.string ?? {}))
+        addColumn(col as AnyColumnMeta);
+    } else {
+      addColumn(meta);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Mark-and-sweep collector for copy-on-write chunks orphaned by `flush`.
+ *
+ * Each `collect` marks the chunks reachable from the given committed snapshots
+ * and lists everything under the chunk prefix. An unreachable key is only
+ * deleted once it has stayed unreachable for `graceMs` across runs, so readers
+ * still working from an older snapshot (or a writer between its chunk writes
+ * and its meta commit) keep their chunks for at least that long.
+ *
+ * The snapshots must cover every table writing chunks under `prefix` in this
+ * store; chunks of tables left out are treated as garbage.
+ */
+export class GarbageCollector {
+  private readonly graceMs: number;
+  private readonly prefix: string;
+  private readonly now: () => number;
+  // Orphaned key -> time it was first seen unreachable
+  private pending = new Map<string, number>();
+
+  constructor(
+    private readonly store: IStore,
+    opts?: { graceMs?: number; prefix?: string; now?: () => number },
+  ) {
+    this.graceMs = opts?.graceMs ?? 5 * 60 * 1000;
+    this.prefix = opts?.prefix ?? CHUNK_KEY_PREFIX;
+    this.now = opts?.now ?? Date.now;
+  }
+
+  async collect(
+    metas: Array<TableMeta<unknown> | AnyColumnMeta>,
+  ): Promise<GcResult> {
+    const live = reachableChunkKeys(metas);
+    const stored = await this.store.list(this.prefix);
+    const now = this.now();
+    const orphans = new Set<string>();
+    const expired: string[] = [];
+    for (const key of stored) {
+      if (live.has(key)) continue;
+      orphans.add(key);
+      const since = this.pending.get(key);
+      if (since === undefined) this.pending.set(key, now);
+      else if (now - since >= this.graceMs) expired.push(key);
+    }
+    // Forget keys that were deleted elsewhere or became reachable again
+    for (const key of this.pending.keys()) {
+      if (!orphans.has(key)) this.pending.delete(key);
+    }
+    await Promise.all(expired.map((key) => this.store.delete(key)));
+    for (const key of expired) this.pending.delete(key);
+    return { live: live.size, pending: this.pending.size, deleted: expired };
+  }
+}
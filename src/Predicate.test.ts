@@ -0,0 +1,80 @@
+import { describe, expect, it } from "bun:test";
+import { matches, mayMatch, predicateColumns, prefixSuccessor, type Predicate } from "./Predicate";
+
+describe("Predicate", () => {
+  const row = { id: 5, name: "alice", score: 1.5 };
+
+  it("evaluates leaf operators on raw values", () => {
+    expect(matches({ op: "eq", column: "name", value: "alice" }, row)).toBe(true);
+    expect(matches({ op: "in", column: "id", values: [1, 5] }, row)).toBe(true);
+    expect(matches({ op: "lt", column: "id", value: 5 }, row)).toBe(false);
+    expect(matches({ op: "lte", column: "id", value: 5 }, row)).toBe(true);
+    expect(matches({ op: "gt", column: "score", value: 1 }, row)).toBe(true);
+    expect(matches({ op: "between", column: "id", min: 1, max: 5 }, row)).toBe(false);
+    expect(matches({ op: "between", column: "id", min: 5, max: 6 }, row)).toBe(true);
+    expect(matches({ op: "startsWith", column: "name", prefix: "al" }, row)).toBe(true);
+    // Mixed types never compare
+    expect(matches({ op: "gt", column: "id", value: "1" }, row)).toBe(false);
+  });
+
+  it("treats missing values as matching only isNull", () => {
+    expect(matches({ op: "isNull", column: "tag" }, row)).toBe(true);
+    expect(matches({ op: "isNull", column: "tag" }, { tag: null })).toBe(true);
+    expect(matches({ op: "lt", column: "tag", value: 1 }, row)).toBe(false);
+    expect(matches({ op: "not", predicate: { op: "eq", column: "tag", value: 1 } }, row)).toBe(true);
+  });
+
+  it("combines with and/or/not and lists the columns read", () => {
+    const pred: Predicate = {
+      op: "and",
+      predicates: [
+        { op: "gte", column: "id", value: 5 },
+        {
+          op: "or",
+          predicates: [
+            { op: "eq", column: "name", value: "bob" },
+            { op: "not", predicate: { op: "isNull", column: "score" } },
+          ],
+        },
+      ],
+    };
+    expect(matches(pred, row)).toBe(true);
+    expect(matches(pred, { id: 5, name: "carol" })).toBe(false);
+    expect(matches({ op: "and", predicates: [] }, row)).toBe(true);
+    expect(matches({ op: "or", predicates: [] }, row)).toBe(false);
+    expect([...predicateColumns(pred)]).toEqual(["id", "name", "score"]);
+  });
+
+  it("rules out matches from column stats", () => {
+    const stats = (column: string) =>
+      column === "id" ? { min: 10, max: 20, nullCount: 0 } : column === "name" ? { min: "bob", max: "dan", nullCount: 2 } : undefined;
+    expect(mayMatch({ op: "eq", column: "id", value: 15 }, stats)).toBe(true);
+    expect(mayMatch({ op: "eq", column: "id", value: 21 }, stats)).toBe(false);
+    expect(mayMatch({ op: "in", column: "id", values: [1, 25] }, stats)).toBe(false);
+    expect(mayMatch({ op: "lt", column: "id", value: 10 }, stats)).toBe(false);
+    expect(mayMatch({ op: "gte", column: "id", value: 20 }, stats)).toBe(true);
+    expect(mayMatch({ op: "between", column: "id", min: 20, max: 30 }, stats)).toBe(true);
+    expect(mayMatch({ op: "between", column: "id", min: 0, max: 10 }, stats)).toBe(false);
+    expect(mayMatch({ op: "gt", column: "id", value: "1" }, stats)).toBe(false);
+    expect(mayMatch({ op: "startsWith", column: "name", prefix: "c" }, stats)).toBe(true);
+    expect(mayMatch({ op: "startsWith", column: "name", prefix: "e" }, stats)).toBe(false);
+    expect(mayMatch({ op: "isNull", column: "id" }, stats)).toBe(false);
+    expect(mayMatch({ op: "isNull", column: "name" }, stats)).toBe(true);
+    // Unknown columns and negations are never ruled out
+    expect(mayMatch({ op: "eq", column: "other", value: 1 }, stats)).toBe(true);
+    expect(mayMatch({ op: "not", predicate: { op: "eq", column: "id", value: 15 } }, stats)).toBe(true);
+    expect(
+      mayMatch(
+        { op: "or", predicates: [{ op: "eq", column: "id", value: 1 }, { op: "isNull", column: "id" }] },
+        stats,
+      ),
+    ).toBe(false);
+    expect(mayMatch({ op: "eq", column: "id", value: 1 }, () => ({ nullCount: 4 }))).toBe(false);
+  });
+
+  it("computes prefix successors", () => {
+    expect(prefixSuccessor("ab")).toBe("ac");
+    expect(prefixSuccessor("a￿")).toBe("b");
+    expect(prefixSuccessor("")).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import type { SegmentStats } from "./FenwickList";
+
+type Value = string | number;
+
+/**
+ * Row filter for `Table.query`. Comparisons use `<`/`>` on the raw values
+ * and only match values of the same type; missing (undefined or null)
+ * values match nothing but `isNull`, so `not` of a comparison matches them.
+ * `between` is half-open, [min, max), like `scan`.
+ */
+export type Predicate =
+  | { op: "eq"; column: string; value: Value }
+  | { op: "in"; column: string; values: Value[] }
+  | { op: "lt" | "lte" | "gt" | "gte"; column: string; value: Value }
+  | { op: "between"; column: string; min: Value; max: Value }
+  | { op: "isNull"; column: string }
+  | { op: "startsWith"; column: string; prefix: string }
+  | { op: "and"; predicates: Predicate[] }
+  | { op: "or"; predicates: Predicate[] }
+  | { op: "not"; predicate: Predicate };
+
+function comparable(v: unknown, to: Value): v is Value {
+  return typeof v === typeof to;
+}
+
+export function matches(pred: Predicate, row: Record<string, unknown>): boolean {
+  switch (pred.op) {
+    case "and":
+      return pred.predicates.every((p) => matches(p, row));
+    case "or":
+      return pred.predicates.some((p) => matches(p, row));
+    case "not":
+      return !matches(pred.predicate, row);
+    case "isNull":
+      return row[pred.column] === undefined || row[pred.column] === null;
+    default:
+      break;
+  }
+  const v = row[pred.column];
+  switch (pred.op) {
+    case "eq":
+      return v === pred.value;
+    case "in":
+      return pred.values.includes(v as Value);
+    case "lt":
+      return comparable(v, pred.value) && v < pred.value;
+    case "lte":
+      return comparable(v, pred.value) && v <= pred.value;
+    case "gt":
+      return comparable(v, pred.value) && v > pred.value;
+    case "gte":
+      return comparable(v, pred.value) && v >= pred.value;
+    case "between":
+      return comparable(v, pred.min) && v >= pred.min && v < pred.max;
+    case "startsWith":
+      return typeof v === "string" && v.startsWith(pred.prefix);
+  }
+}
+
+/**
+ * False only when `stats` prove that no row can match. `stats` bounds a
+ * column's values over the rows in question, or is undefined when nothing is
+ * known about the column. `not` is never pruned.
+ */
+export function mayMatch(pred: Predicate, stats: (column: string) => SegmentStats<unknown> | undefined): boolean {
+  switch (pred.op) {
+    case "and":
+      return pred.predicates.every((p) => mayMatch(p, stats));
+    case "or":
+      return pred.predicates.some((p) => mayMatch(p, stats));
+    case "not":
+      return true;
+    default:
+      break;
+  }
+  const s = stats(pred.column);
+  if (!s || s.nullCount === undefined) return true;
+  if (pred.op === "isNull") return s.nullCount > 0;
+  const { min, max } = s;
+  // Only missing values: no comparison can match
+  if (min === undefined || min === null || max === undefined || max === null) return false;
+  // Bounds over mixed types say nothing about `<`
+  if (typeof min !== typeof max) return true;
+  const lo = min as Value;
+  const hi = max as Value;
+  switch (pred.op) {
+    case "eq":
+      return comparable(lo, pred.value) && lo <= pred.value && pred.value <= hi;
+    case "in":
+      return pred.values.some((v) => comparable(lo, v) && lo <= v && v <= hi);
+    case "lt":
+      return comparable(lo, pred.value) && lo < pred.value;
+    case "lte":
+      return comparable(lo, pred.value) && lo <= pred.value;
+    case "gt":
+      return comparable(hi, pred.value) && hi > pred.value;
+    case "gte":
+      return comparable(hi, pred.value) && hi >= pred.value;
+    case "between":
+      return comparable(lo, pred.min) && hi >= pred.min && lo < pred.max;
+    case "startsWith": {
+      if (typeof lo !== "string") return false;
+      const end = prefixSuccessor(pred.prefix);
+      return hi >= pred.prefix && (end === undefined || lo < end);
+    }
+  }
+}
+
+/** Every column the predicate reads. */
+export function predicateColumns(pred: Predicate, out = new Set<string>()): Set<string> {
+  if (pred.op === "and" || pred.op === "or") {
+    for (const p of pred.predicates) predicateColumns(p, out);
+  } else if (pred.op === "not") {
+    predicateColumns(pred.predicate, out);
+  } else {
+    out.add(pred.column);
+  }
+  return out;
+}
+
+/**
+ * Smallest string greater than every string starting with `prefix`, or
+ * undefined when there is none (an empty or all-U+FFFF prefix).
+ */
+export function prefixSuccessor(prefix: string): string | undefined {
+  for (let i = prefix.length - 1; i >= 0; i--) {
+    const code = prefix.charCodeAt(i);
+    if (code < 0xffff) return prefix.slice(0, i) + String.fromCharCode(code + 1);
+  }
+  return undefined;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import { type IStore, MemoryStore } from "./Store";
+import { Queue } from "./Queue";
+import { QueueStore } from "./QueueStore";
+import { FenwickList } from "./FenwickList";
+
+class SlowStore implements IStore {
+  private inner = new MemoryStore();
+  public active = 0;
+  public maxActive = 0;
+  public gets = 0;
+  public sets = 0;
+  constructor(private readonly delayMs = 2) {}
+  private async track<R>(fn: () => Promise<R>): Promise<R> {
+    this.active += 1;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    await new Promise((r) => setTimeout(r, this.delayMs));
+    try {
+      return await fn();
+    } finally {
+      this.active -= 1;
+    }
+  }
+  async get<K = unknown>(key: string): Promise<K | undefined> {
+    this.gets += 1;
+    return this.track(() => this.inner.get<K>(key));
+  }
+  async set<K = unknown>(key: string, value: K): Promise<void> {
+    this.sets += 1;
+    await this.track(() => this.inner.set<K>(key, value));
+  }
+  async delete(key: string): Promise<void> {
+    await this.track(() => this.inner.delete(key));
+  }
+  async list(prefix: string): Promise<string[]> {
+    return this.track(() => this.inner.list(prefix));
+  }
+}
+
+describe("QueueStore", () => {
+  it("bounds concurrent requests during flush and range", async () => {
+    const slow = new SlowStore();
+    const store = new QueueStore(slow, 3);
+    const list = new FenwickList<number>(store, { segmentCount: 4, chunkCount: 1 });
+    for (let i = 0; i < 80; i++) await list.insertAt(i, i);
+    await list.flush();
+    expect(slow.sets).toBeGreaterThan(3);
+
+    const reloaded = new FenwickList<number>(store, list.getMeta());
+    expect(await reloaded.range(0, 80)).toEqual(Array.from({ length: 80 }, (_, i) => i));
+    expect(slow.maxActive).toBeLessThanOrEqual(3);
+  });
+
+  it("shares one concurrency budget between stores using the same queue", async () => {
+    const slow = new SlowStore();
+    const queue = new Queue(2);
+    const a = new QueueStore(slow, queue);
+    const b = new QueueStore(slow, queue);
+    await Promise.all([
+      ...Array.from({ length: 5 }, (_, i) => a.set(`a${i}`, i)),
+      ...Array.from({ length: 5 }, (_, i) => b.set(`b${i}`, i)),
+    ]);
+    expect(slow.maxActive).toBeLessThanOrEqual(2);
+    expect(await b.get<number>("a3")).toBe(3);
+  });
+
+  it("merges duplicate in-flight gets and hands out independent copies", async () => {
+    const slow = new SlowStore();
+    const store = new QueueStore(slow, 4);
+    await store.set("k", [[1, 2, 3]]);
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => store.get<number[][]>("k")),
+    );
+    expect(slow.gets).toBe(1);
+    for (const r of results) expect(r).toEqual([[1, 2, 3]]);
+    results[1]![0]!.push(4);
+    expect(results[2]).toEqual([[1, 2, 3]]);
+
+    // Once settled, a new get hits the inner store again
+    await store.get("k");
+    expect(slow.gets).toBe(2);
+  });
+
+  it("does not merge a get issued after a set with an older in-flight get", async () => {
+    const store = new QueueStore(new SlowStore(), 4);
+    await store.set("k", 1);
+    const before = store.get<number>("k");
+    await store.set("k", 2);
+    const after = store.get<number>("k");
+    expect(await before).toBe(1);
+    expect(await after).toBe(2);
+  });
+});
@@ -0,0 +1,60 @@
+import { Queue } from "./Queue";
+import type { IStore } from "./Store";
+
+/**
+ * IStore decorator that routes every get/set through a `Queue`, bounding the
+ * number of concurrent requests hitting the inner store. Pass the same Queue
+ * to several QueueStores to share one concurrency budget between them.
+ *
+ * Concurrent gets for the same key are merged into a single inner request.
+ */
+export class QueueStore implements IStore {
+  private readonly queue: Queue;
+  private inflightGets = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly inner: IStore,
+    queueOrConcurrency: Queue | number = 16,
+  ) {
+    this.queue =
+      typeof queueOrConcurrency === "number"
+        ? new Queue(queueOrConcurrency)
+        : queueOrConcurrency;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const pending = this.inflightGets.get(key);
+    if (pending) {
+      // Merged callers get their own copy so mutations can't leak between them
+      const value = await pending;
+      return (value === undefined ? undefined : structuredClone(value)) as T | undefined;
+    }
+    const promise = this.queue.add(() => this.inner.get<T>(key));
+    this.inflightGets.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      if (this.inflightGets.get(key) === promise) this.inflightGets.delete(key);
+    }
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    // Reads issued after this set must not join a get that may predate it
+    this.inflightGets.delete(key);
+    await this.queue.add(() => this.inner.set<T>(key, value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.inflightGets.delete(key);
+    await this.queue.add(() => this.inner.delete(key));
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return this.queue.add(() => this.inner.list(prefix));
+  }
+
+  /** Waits until every queued request has settled. */
+  async join(): Promise<void> {
+    await this.queue.join();
+  }
+}
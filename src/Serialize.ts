@@ -0,0 +1,52 @@
+// Values starting with this byte hold raw binary payloads; anything else is JSON text.
+// JSON never starts with a NUL byte, so meta values stay readable by hand.
+const BINARY_MARKER = 0x00;
+const UNDEFINED_TAG = "$undefined";
+
+/**
+ * Encodes a store value as bytes. Uint8Arrays are stored verbatim behind a
+ * marker byte, everything else as JSON text.
+ */
+export function encodeValue(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) {
+    const out = new Uint8Array(value.length + 1);
+    out[0] = BINARY_MARKER;
+    out.set(value, 1);
+    return out;
+  }
+  // JSON drops undefined array slots (becomes null); tag them so columns with
+  // missing values round-trip the same way they do through MemoryStore.
+  const text = JSON.stringify(value, function (this: unknown, _key, v) {
+    return v === undefined && Array.isArray(this) ? { [UNDEFINED_TAG]: true } : v;
+  });
+  return new TextEncoder().encode(text);
+}
+
+/** Inverse of `encodeValue`. */
+export function decodeValue(bytes: Uint8Array): unknown {
+  if (bytes[0] === BINARY_MARKER) return bytes.slice(1);
+  return restoreUndefined(JSON.parse(new TextDecoder().decode(bytes)));
+}
+
+function restoreUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const v = value[i];
+      if (isUndefinedTag(v)) value[i] = undefined;
+      else if (v !== null && typeof v === "object") restoreUndefined(v);
+    }
+  } else if (value !== null && typeof value === "object") {
+    for (const v of Object.values(value)) {
+      if (v !== null && typeof v === "object") restoreUndefined(v);
+    }
+  }
+  return value;
+}
+
+function isUndefinedTag(v: unknown): boolean {
+  return (
+    v !== null &&
+    typeof v === "object" &&
+    (v as Record<string, unknown>)[UNDEFINED_TAG] === true
+  );
+}
@@ -1,6 +1,9 @@
 export interface IStore {
   get<T = unknown>(key: string): Promise<T | undefined>;
   set<T = unknown>(key: string, values: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Keys starting with `prefix`, sorted ascending
+  list(prefix: string): Promise<string[]>;
 }
 
 export class MemoryStore implements IStore {
@@ -17,4 +20,14 @@ export class MemoryStore implements IStore {
   async set<T = unknown>(key: string, value: T): Promise<void> {
     this.map.set(key, structuredClone(value));
   }
+
+  async delete(key: string): Promise<void> {
+    this.map.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (const key of this.map.keys()) if (key.startsWith(prefix)) keys.push(key);
+    return keys.sort();
+  }
 }
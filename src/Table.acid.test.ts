@@ -21,6 +21,14 @@ class HookStore implements IStore {
         this.map.set(key, structuredClone(value));
         this.setCount[key] = (this.setCount[key] ?? 0) + 1;
     }
+
+    async delete(key: string): Promise<void> {
+        this.map.delete(key);
+    }
+
+    async list(prefix: string): Promise<string[]> {
+        return Array.from(this.map.keys()).filter((k) => k.startsWith(prefix)).sort();
+    }
 }
 
 describe("Table ACID: meta persistence and atomicity", () => {
@@ -88,6 +96,7 @@ describe("Table ACID: meta persistence and atomicity", () => {
         // Inject failing column
         const failingCol: IndexedColumnInterface<unknown> = {
             insertAt: async () => { },
+            insertManyAt: async () => { },
             range: async () => [],
             get: async () => undefined,
             flush: async () => {
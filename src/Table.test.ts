@@ -7,6 +7,7 @@ import {
   type IndexedColumnInterface,
 } from "./Column";
 import type { TableMeta } from "./Table";
+import type { Predicate } from "./Predicate";
 
 type Row = { id: number; name: string };
 
@@ -233,6 +234,46 @@ describe("Table (dynamic columns)", () => {
     expect(rows.map((r) => r.score)).toEqual([10, undefined]);
   });
 
+  it("keeps columns aligned for unsorted batches and late columns", async () => {
+    const store = new MemoryStore();
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, { segmentCount: 4, chunkCount: 2 }) },
+      undefined,
+      { segmentCount: 4, chunkCount: 2 },
+    );
+    await table.insert([{ id: 10, name: "ten" }, { id: 20, name: "twenty" }]);
+    await table.insert([
+      { id: 15, name: "fifteen", score: 15 },
+      { id: 5, name: "five" },
+      { id: 3, name: "three", score: 3 },
+      { id: 25, name: "twenty-five" },
+    ]);
+    expect(await table.range(0)).toEqual([
+      { id: 3, name: "three", score: 3 },
+      { id: 5, name: "five" },
+      { id: 10, name: "ten" },
+      { id: 15, name: "fifteen", score: 15 },
+      { id: 20, name: "twenty" },
+      { id: 25, name: "twenty-five" },
+    ]);
+  });
+
+  it("keeps every row's fields for unsorted batches across many segments", async () => {
+    const store = new MemoryStore();
+    const opts = { segmentCount: 4, chunkCount: 2 };
+    const table = new Table<number>(store, { key: "id", column: new OrderedColumn<number>(store, opts) }, undefined, opts);
+    // Deterministic shuffle of 0..63 split into 8 unsorted batches
+    const ids = Array.from({ length: 64 }, (_, i) => (i * 37) % 64);
+    for (let b = 0; b < 8; b++) {
+      await table.insert(ids.slice(b * 8, b * 8 + 8).map((id) => ({ id, name: `n${id}`, score: id * 10 })));
+    }
+    expect(table.getMeta().order.meta.segments.length).toBeGreaterThan(8);
+    expect(await table.range(0)).toEqual(
+      Array.from({ length: 64 }, (_, id) => ({ id, name: `n${id}`, score: id * 10 })),
+    );
+  });
+
   it("throws on unsupported column value types", async () => {
     const store = new MemoryStore();
     const table = new Table<number>(
@@ -346,6 +387,7 @@ describe("Table ACID meta semantics", () => {
     // Replace the name column with a failing implementation that throws on flush
     const failingCol: IndexedColumnInterface<unknown> = {
       insertAt: async () => { },
+      insertManyAt: async () => { },
       range: async () => [],
       get: async () => undefined,
       flush: async () => {
@@ -432,3 +474,625 @@ describe("Table (rows echo)", () => {
   });
 
 });
+
+describe("Table cache limits", () => {
+  it("applies limits to every column and sums usage", async () => {
+    const store = new MemoryStore();
+    const opts = { segmentCount: 4, chunkCount: 1 };
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, opts) },
+      undefined,
+      opts,
+    );
+    table.setCacheLimits({ maxSegments: 2, maxChunks: 1 });
+    const rows = Array.from({ length: 40 }, (_, i) => ({ id: i, name: `n${i}`, score: i * 2 }));
+    await table.insert(rows);
+    await table.flush("t.meta");
+
+    const stats = table.getCacheStats();
+    // order + name + score, each capped independently
+    expect(stats.segments).toBeLessThanOrEqual(6);
+    expect(stats.chunks).toBeLessThanOrEqual(3);
+    expect(stats.dirtySegments).toBe(0);
+    expect(await table.range(0)).toEqual(rows);
+    expect(table.getCacheStats().chunks).toBeLessThanOrEqual(3);
+
+    // Limits survive setMeta
+    table.setMeta(table.getMeta());
+    await table.range(0);
+    expect(table.getCacheStats().chunks).toBeLessThanOrEqual(3);
+  });
+});
+
+describe("Table.upsert", () => {
+  function makeTable(store: MemoryStore, unique?: "reject" | "ignore" | "replace"): Table<number> {
+    const opts = { segmentCount: 4, chunkCount: 2 };
+    return new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, { ...opts, ...(unique ? { unique } : {}) }) },
+      undefined,
+      opts,
+    );
+  }
+
+  it("overwrites stored rows with equal keys and is idempotent", async () => {
+    const store = new MemoryStore();
+    const table = makeTable(store);
+    await table.insert([
+      { id: 1, name: "a", score: 1 },
+      { id: 2, name: "b", score: 2 },
+    ]);
+    const batch = [
+      { id: 3, name: "c" },
+      { id: 1, name: "a2" },
+      { id: 1, name: "a3", tag: "late" },
+    ];
+    await table.upsert(batch);
+    await table.upsert(batch);
+    expect(await table.range(0)).toEqual([
+      { id: 1, name: "a3", tag: "late" },
+      { id: 2, name: "b", score: 2 },
+      { id: 3, name: "c" },
+    ]);
+  });
+
+  it("keeps one row per key when a new key repeats within the batch", async () => {
+    const store = new MemoryStore();
+    const table = makeTable(store);
+    const batch = [
+      { id: 1, a: "x" },
+      { id: 2, a: "b" },
+      { id: 1, a: "y", n: 5 },
+    ];
+    await table.upsert(batch);
+    const expected = [
+      { id: 1, a: "y", n: 5 },
+      { id: 2, a: "b" },
+    ];
+    expect(await table.range(0)).toEqual(expected);
+    await table.upsert(batch);
+    expect(await table.range(0)).toEqual(expected);
+
+    // Rows stored with equal keys before are all replaced
+    await table.insert([{ id: 3, a: "p" }, { id: 3, a: "q" }]);
+    await table.upsert([{ id: 3, a: "r" }]);
+    expect((await table.range(0)).filter((r) => r.id === 3)).toEqual([
+      { id: 3, a: "r" },
+      { id: 3, a: "r" },
+    ]);
+  });
+
+  it("applies the unique mode of the order column on insert", async () => {
+    const store = new MemoryStore();
+    const rejecting = makeTable(store, "reject");
+    await rejecting.insert([{ id: 1, name: "a" }]);
+    await expect(rejecting.insert([{ id: 2, name: "b" }, { id: 1, name: "x" }])).rejects.toThrow(
+      'Duplicate value 1 for key "id"',
+    );
+    expect(await rejecting.range(0)).toEqual([{ id: 1, name: "a" }]);
+    await rejecting.flush("t.meta");
+    const reloaded = (await Table.load<number>(store, "t.meta"))!;
+    await expect(reloaded.insert([{ id: 1 }])).rejects.toThrow("Duplicate value 1");
+
+    const ignoring = makeTable(store, "ignore");
+    await ignoring.insert([{ id: 1, name: "a" }]);
+    await ignoring.insert([{ id: 2, name: "b" }, { id: 1, name: "x" }, { id: 2, name: "y" }]);
+    expect(await ignoring.range(0)).toEqual([
+      { id: 1, name: "a" },
+      { id: 2, name: "b" },
+    ]);
+
+    const replacing = makeTable(store, "replace");
+    await replacing.insert([{ id: 1, name: "a" }]);
+    await replacing.insert([{ id: 2, name: "b" }, { id: 1, name: "x" }, { id: 2, name: "y" }]);
+    expect(await replacing.range(0)).toEqual([
+      { id: 1, name: "x" },
+      { id: 2, name: "y" },
+    ]);
+  });
+
+  it("upserts across persisted segments under tight cache limits", async () => {
+    const store = new MemoryStore();
+    const table = makeTable(store);
+    const rows = Array.from({ length: 40 }, (_, i) => ({ id: i * 2, name: `n${i}` }));
+    await table.insert(rows);
+    await table.flush("t.meta");
+    const reloaded = (await Table.load<number>(store, "t.meta"))!;
+    reloaded.setCacheLimits({ maxSegments: 1, maxChunks: 1 });
+
+    const batch = Array.from({ length: 20 }, (_, i) => ({ id: i * 4 + (i % 2), name: `u${i}` }));
+    await reloaded.upsert(batch);
+    await reloaded.flush("t.meta");
+
+    const byId = new Map<number, Row>(rows.map((r) => [r.id, r]));
+    for (const r of batch) byId.set(r.id, r);
+    const expected = [...byId.values()].sort((a, b) => a.id - b.id);
+    const again = (await Table.load<number>(store, "t.meta"))!;
+    expect(await again.range(0)).toEqual(expected);
+  });
+});
+
+describe("Table.query", () => {
+  class CountingStore extends MemoryStore {
+    gets = 0;
+    keys: string[] = [];
+    override async get<K = unknown>(key: string): Promise<K | undefined> {
+      this.gets++;
+      this.keys.push(key);
+      return super.get<K>(key);
+    }
+  }
+
+  async function makeTable(store: MemoryStore): Promise<Table<number>> {
+    const rows = Array.from({ length: 100 }, (_, i) => ({
+      id: i,
+      name: `user${i % 10}`,
+      ...(i % 4 === 0 ? {} : { score: i % 7 }),
+    }));
+    const table = await Table.fromSortedRows<number>(store, "id", rows, { segmentCount: 8, chunkCount: 1 });
+    await table.flush("t.meta");
+    return (await Table.load<number>(store, "t.meta"))!;
+  }
+
+  it("filters on any column and pages through matches", async () => {
+    const table = await makeTable(new MemoryStore());
+    const where: Predicate = {
+      op: "and",
+      predicates: [
+        { op: "startsWith", column: "name", prefix: "user3" },
+        { op: "not", predicate: { op: "isNull", column: "score" } },
+      ],
+    };
+    const all = await table.query({ where });
+    expect(all.map((r) => r.id)).toEqual([3, 13, 23, 33, 43, 53, 63, 73, 83, 93]);
+    expect(all[1]).toEqual({ id: 13, name: "user3", score: 6 });
+    const page = await table.query({ where, offset: 2, limit: 3 });
+    expect(page).toEqual(all.slice(2, 5));
+    expect(await table.query({ where: { op: "isNull", column: "score" }, limit: 2 })).toEqual([
+      { id: 0, name: "user0" },
+      { id: 4, name: "user4" },
+    ]);
+  });
+
+  it("narrows order key conditions to an index window", async () => {
+    const store = new CountingStore();
+    const table = await makeTable(store);
+    store.gets = 0;
+    const rows = await table.query({
+      where: {
+        op: "and",
+        predicates: [
+          { op: "gte", column: "id", value: 40 },
+          { op: "lt", column: "id", value: 44 },
+          { op: "in", column: "name", values: ["user1", "user2"] },
+        ],
+      },
+    });
+    expect(rows.map((r) => r.id)).toEqual([41, 42]);
+    // The bound lookups and one chunk per column, out of 13 per column
+    expect(store.gets).toBeLessThanOrEqual(4);
+
+    expect((await table.query({ orderRange: { min: 10, max: 12, maxInclusive: true } })).map((r) => r.id)).toEqual([
+      10, 11, 12,
+    ]);
+    const either = await table.query({
+      where: {
+        op: "or",
+        predicates: [
+          { op: "eq", column: "id", value: 7 },
+          { op: "between", column: "id", min: 97, max: 200 },
+        ],
+      },
+    });
+    expect(either.map((r) => r.id)).toEqual([7, 97, 98, 99]);
+    expect(await table.query({ where: { op: "isNull", column: "id" } })).toEqual([]);
+  });
+
+  it("skips segments whose column stats rule out a match", async () => {
+    const store = new CountingStore();
+    // seq rises with id but isn't the order key; tag is set on the last rows only
+    const rows = Array.from({ length: 64 }, (_, i) => ({ id: i, seq: i * 3, ...(i >= 60 ? { tag: "t" } : {}) }));
+    const built = await Table.fromSortedRows<number>(store, "id", rows, { segmentCount: 8, chunkCount: 1 });
+    await built.flush("t.meta");
+    const meta = built.getMeta();
+    const seqChunks = new Set(meta.columns.number["seq"]!.chunks);
+    const tagChunks = new Set(meta.columns.string["tag"]!.chunks);
+    const table = new Table<number>(store, meta);
+
+    store.keys.length = 0;
+    const hits = await table.query({ where: { op: "between", column: "seq", min: 100, max: 106 } });
+    expect(hits).toEqual([
+      { id: 34, seq: 102 },
+      { id: 35, seq: 105 },
+    ]);
+    // One of the eight seq segments holds values in range
+    expect(store.keys.filter((key) => seqChunks.has(key)).length).toBe(1);
+
+    store.keys.length = 0;
+    const tagged = await table.query({ where: { op: "eq", column: "tag", value: "t" }, limit: 2 });
+    expect(tagged.map((r) => r.id)).toEqual([60, 61]);
+    expect(store.keys.filter((key) => tagChunks.has(key)).length).toBe(1);
+
+    expect(await table.query({ where: { op: "gt", column: "seq", value: 1000 } })).toEqual([]);
+    expect((await table.query({ where: { op: "isNull", column: "tag" }, offset: 58 })).map((r) => r.id)).toEqual([58, 59]);
+    expect(
+      await table.aggregate({ metrics: { n: { op: "count" } }, where: { op: "lt", column: "seq", value: 9 } }),
+    ).toEqual([{ n: 3 }]);
+  });
+});
+
+describe("Table.aggregate", () => {
+  const rows = [
+    { id: 1, type: "post", stage: "prod", size: 10, user: "a" },
+    { id: 2, type: "post", stage: "prod", size: 30, user: "b" },
+    { id: 3, type: "page", stage: "prod", user: "a" },
+    { id: 4, type: "post", stage: "dev", size: 5, user: "a" },
+    { id: 5, stage: "dev", size: 7, user: "c" },
+    { id: 6, type: "post", stage: "prod", size: 20, user: "a" },
+  ];
+
+  async function makeTable(): Promise<Table<number>> {
+    return Table.fromSortedRows<number>(new MemoryStore(), "id", rows, { segmentCount: 4, chunkCount: 2 });
+  }
+
+  it("groups by several columns and computes every metric", async () => {
+    const table = await makeTable();
+    const result = await table.aggregate({
+      groupBy: ["type", "stage"],
+      metrics: {
+        publishes: { op: "count" },
+        sized: { op: "count", column: "size" },
+        total: { op: "sum", column: "size" },
+        smallest: { op: "min", column: "size" },
+        largest: { op: "max", column: "size" },
+        mean: { op: "avg", column: "size" },
+        users: { op: "countDistinct", column: "user" },
+        firstUser: { op: "min", column: "user" },
+      },
+    });
+    expect(result).toEqual([
+      { stage: "dev", publishes: 1, sized: 1, total: 7, smallest: 7, largest: 7, mean: 7, users: 1, firstUser: "c" },
+      {
+        type: "page",
+        stage: "prod",
+        publishes: 1,
+        sized: 0,
+        total: 0,
+        smallest: undefined,
+        largest: undefined,
+        mean: undefined,
+        users: 1,
+        firstUser: "a",
+      },
+      { type: "post", stage: "dev", publishes: 1, sized: 1, total: 5, smallest: 5, largest: 5, mean: 5, users: 1, firstUser: "a" },
+      { type: "post", stage: "prod", publishes: 3, sized: 3, total: 60, smallest: 10, largest: 30, mean: 20, users: 2, firstUser: "a" },
+    ]);
+  });
+
+  it("filters rows and returns one row without groupBy", async () => {
+    const table = await makeTable();
+    expect(
+      await table.aggregate({
+        metrics: { n: { op: "count" }, total: { op: "sum", column: "size" }, maxId: { op: "max", column: "id" } },
+        where: { op: "and", predicates: [{ op: "gte", column: "id", value: 2 }, { op: "eq", column: "user", value: "a" }] },
+      }),
+    ).toEqual([{ n: 3, total: 25, maxId: 6 }]);
+    expect(
+      await table.aggregate({ metrics: { n: { op: "count" } }, where: { op: "gt", column: "id", value: 10 } }),
+    ).toEqual([{ n: 0 }]);
+    expect(
+      await table.aggregate({ groupBy: "stage", metrics: { n: { op: "count" } }, where: { op: "gt", column: "id", value: 10 } }),
+    ).toEqual([]);
+  });
+});
+
+describe("Table.histogram", () => {
+  const MIN = 60_000;
+  const base = 1_700_000_040_000; // a whole minute
+
+  async function makeTable(): Promise<Table<number>> {
+    // Minute 0: 2 events, minute 1: 1, minute 2: none, minute 3: 3
+    const rows = [10_000, 20_000, MIN + 10_000, 3 * MIN + 5_000, 3 * MIN + 6_000, 3 * MIN + 7_000].map((dt, i) => ({
+      $time: base + dt,
+      bytes: (i + 1) * 100,
+      user: i % 2 === 0 ? "a" : "b",
+    }));
+    return Table.fromSortedRows<number>(new MemoryStore(), "$time", rows, { segmentCount: 2, chunkCount: 2 });
+  }
+
+  it("counts rows per aligned bucket and fills empty buckets", async () => {
+    const table = await makeTable();
+    expect(await table.histogram({ from: base, to: base + 4 * MIN, bucket: "1m" })).toEqual([
+      { start: base, count: 2 },
+      { start: base + MIN, count: 1 },
+      { start: base + 2 * MIN, count: 0 },
+      { start: base + 3 * MIN, count: 3 },
+    ]);
+    // Buckets are clamped to [from, to)
+    expect(await table.histogram({ from: base + 15_000, to: base + 3 * MIN + 6_500, bucket: 2 * MIN })).toEqual([
+      { start: base, count: 2 },
+      { start: base + 2 * MIN, count: 2 },
+    ]);
+    expect(await table.histogram({ from: base, to: base, bucket: "1h" })).toEqual([]);
+  });
+
+  it("computes metrics per bucket", async () => {
+    const table = await makeTable();
+    const result = await table.histogram({
+      from: base,
+      to: base + 3 * MIN,
+      bucket: "1m",
+      metrics: {
+        events: { op: "count" },
+        bytes: { op: "sum", column: "bytes" },
+        avgBytes: { op: "avg", column: "bytes" },
+        maxBytes: { op: "max", column: "bytes" },
+        users: { op: "countDistinct", column: "user" },
+      },
+    });
+    expect(result).toEqual([
+      { start: base, count: 2, events: 2, bytes: 300, avgBytes: 150, maxBytes: 200, users: 2 },
+      { start: base + MIN, count: 1, events: 1, bytes: 300, avgBytes: 300, maxBytes: 300, users: 1 },
+      { start: base + 2 * MIN, count: 0, events: 0, bytes: 0, avgBytes: undefined, maxBytes: undefined, users: 0 },
+    ]);
+  });
+
+  it("rejects invalid buckets and non-scalar order keys", async () => {
+    const table = await makeTable();
+    await expect(table.histogram({ from: 0, to: 1, bucket: "1w" })).rejects.toThrow('Invalid bucket "1w"');
+    await expect(table.histogram({ from: 0, to: 1, bucket: 0 })).rejects.toThrow("Invalid bucket 0");
+    const composite = await Table.fromSortedRows<unknown[]>(new MemoryStore(), ["a", "b"], [{ a: 1, b: 2 }]);
+    await expect(composite.histogram({ from: 0, to: 1, bucket: 1 })).rejects.toThrow("single order key");
+  });
+
+  it("buckets persisted rows under tight cache limits", async () => {
+    const store = new MemoryStore();
+    const rows = Array.from({ length: 60 }, (_, i) => ({ $time: base + i * 10_000, bytes: i }));
+    const table = await Table.fromSortedRows<number>(store, "$time", rows, { segmentCount: 4, chunkCount: 1 });
+    await table.flush("t.meta");
+    const reloaded = (await Table.load<number>(store, "t.meta"))!;
+    reloaded.setCacheLimits({ maxSegments: 1, maxChunks: 1 });
+
+    const result = await reloaded.histogram({
+      from: base,
+      to: base + 10 * MIN,
+      bucket: "1m",
+      metrics: { bytes: { op: "sum", column: "bytes" }, top: { op: "max", column: "bytes" } },
+    });
+    expect(result).toEqual(
+      Array.from({ length: 10 }, (_, k) => ({
+        start: base + k * MIN,
+        count: 6,
+        bytes: 36 * k + 15,
+        top: 6 * k + 5,
+      })),
+    );
+    expect(reloaded.getCacheStats().chunks).toBeLessThanOrEqual(2);
+  });
+});
+
+describe("Table projection", () => {
+  class RecordingStore extends MemoryStore {
+    loaded: string[] = [];
+    override async get<K = unknown>(key: string): Promise<K | undefined> {
+      this.loaded.push(key);
+      return super.get<K>(key);
+    }
+  }
+
+  it("reads only the requested columns and can leave out the order key", async () => {
+    const store = new RecordingStore();
+    const rows = Array.from({ length: 12 }, (_, i) => ({ id: i, name: `n${i}`, score: i * 10, tag: "t" }));
+    const built = await Table.fromSortedRows<number>(store, "id", rows, { segmentCount: 4, chunkCount: 1 });
+    await built.flush("t.meta");
+    const meta = built.getMeta();
+    const keysOf = (column: { chunks: string[] }) => new Set(column.chunks);
+    const nameChunks = keysOf(meta.columns.string["name"]!);
+    const orderChunks = keysOf(meta.order.meta);
+
+    const table = new Table<number>(store, meta);
+    const loaded = store.loaded;
+    loaded.length = 0;
+
+    expect(await table.range(2, 3, { columns: ["name"] })).toEqual([
+      { id: 2, name: "n2" },
+      { id: 3, name: "n3" },
+      { id: 4, name: "n4" },
+    ]);
+    expect(loaded.length).toBeGreaterThan(0);
+    expect(loaded.every((key) => nameChunks.has(key) || orderChunks.has(key))).toBe(true);
+
+    loaded.length = 0;
+    expect(await table.range(10, undefined, { columns: ["score", "missing"], orderKey: false })).toEqual([
+      { score: 100 },
+      { score: 110 },
+    ]);
+    expect(loaded.some((key) => orderChunks.has(key) || nameChunks.has(key))).toBe(false);
+
+    expect(await table.get(5, { columns: ["tag"] })).toEqual({ tag: "t" });
+    expect(await table.get(5, { columns: ["name"], orderKey: true })).toEqual({ id: 5, name: "n5" });
+  });
+
+  it("returns every component of a composite order key", async () => {
+    const rows = Array.from({ length: 6 }, (_, i) => ({ t: Math.floor(i / 2), s: `s${i % 2}`, v: i, w: "x" }));
+    const table = await Table.fromSortedRows<unknown[]>(new MemoryStore(), ["t", "s"], rows, { segmentCount: 2 });
+
+    expect(await table.get(3, { columns: ["v"], orderKey: true })).toEqual({ t: 1, s: "s1", v: 3 });
+    expect(await table.range(4, 2, { columns: ["v"] })).toEqual([
+      { t: 2, s: "s0", v: 4 },
+      { t: 2, s: "s1", v: 5 },
+    ]);
+    expect(await table.range(0, 1, { columns: ["w"], orderKey: false })).toEqual([{ w: "x" }]);
+    expect(await table.rangeColumns(0, 2, { columns: [] })).toEqual({ t: [0, 0], s: ["s0", "s1"] });
+  });
+});
+
+describe("Table.rangeColumns", () => {
+  it("returns aligned arrays per column and matches range", async () => {
+    const store = new MemoryStore();
+    const opts = { segmentCount: 4, chunkCount: 2 };
+    const table = new Table<number>(store, { key: "id", column: new OrderedColumn<number>(store, opts) }, undefined, opts);
+    await table.insert(Array.from({ length: 10 }, (_, i) => ({ id: i, name: `n${i}` })));
+    await table.update(3, { score: 30 });
+
+    expect(await table.rangeColumns(2, 4)).toEqual({
+      id: [2, 3, 4, 5],
+      name: ["n2", "n3", "n4", "n5"],
+      score: [undefined, 30, undefined, undefined],
+    });
+    expect(await table.rangeColumns(8, undefined, { columns: ["score"], orderKey: false })).toEqual({
+      score: [undefined, undefined],
+    });
+    expect(await table.rangeColumns(20)).toEqual({ id: [], name: [], score: [] });
+    expect(await table.range(2, 3)).toEqual([
+      { id: 2, name: "n2" },
+      { id: 3, name: "n3", score: 30 },
+      { id: 4, name: "n4" },
+    ]);
+  });
+});
+
+describe("Table.compact", () => {
+  it("compacts every column and commits a new snapshot", async () => {
+    const store = new MemoryStore();
+    const opts = { segmentCount: 8, chunkCount: 2 };
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, opts) },
+      undefined,
+      opts,
+    );
+    // Appends split the last segment in halves, leaving half-full segments behind
+    const rows = Array.from({ length: 30 }, (_, i) => ({ id: i, name: `n${i}`, score: i * 2 }));
+    for (const row of rows) await table.insert([row]);
+    await table.flush("t.meta");
+    const before = table.getMeta();
+
+    await table.compact("t.meta", { minFill: 8 });
+    const after = table.getMeta();
+    expect(after.order.meta.segments.length).toBeLessThan(before.order.meta.segments.length);
+    expect(after.columns.string["name"]!.segments.length).toBeLessThan(
+      before.columns.string["name"]!.segments.length,
+    );
+
+    const reloaded = await Table.load<number>(store, "t.meta");
+    expect(await reloaded!.range(0)).toEqual(rows);
+    expect(await new Table<number>(store, before).range(0)).toEqual(rows);
+  });
+});
+
+describe("Table.fromSortedRows", () => {
+  it("bulk loads every column and behaves like an inserted table", async () => {
+    const store = new MemoryStore();
+    const rows = Array.from({ length: 25 }, (_, i) => ({
+      id: i * 10,
+      ...(i % 3 === 0 ? {} : { name: `n${i}` }),
+      score: i,
+    }));
+    const opts = { segmentCount: 4, chunkCount: 2, codec: "binary" };
+    const table = await Table.fromSortedRows<number>(store, "id", rows, opts);
+    expect(await table.range(0)).toEqual(rows);
+
+    await table.insert([{ id: 15, name: "mid", score: -1 }]);
+    await table.flush("t.meta");
+    const reloaded = await Table.load<number>(store, "t.meta");
+    const all = await reloaded!.range(0);
+    expect(all.length).toBe(26);
+    expect(all[2]).toEqual({ id: 15, name: "mid", score: -1 });
+    expect(reloaded!.getMeta().defaults).toEqual(opts);
+  });
+
+  it("rejects rows that are not sorted by the key", async () => {
+    await expect(
+      Table.fromSortedRows<number>(new MemoryStore(), "id", [{ id: 2 }, { id: 1 }]),
+    ).rejects.toThrow("out of order");
+  });
+});
+
+describe("Table.scan", () => {
+  it("forwards bounds, reverse and limit to the order column", async () => {
+    const rows = Array.from({ length: 20 }, (_, i) => ({ t: i, v: `v${i}` }));
+    const table = await Table.fromSortedRows<number>(new MemoryStore(), "t", rows, {
+      segmentCount: 4,
+      chunkCount: 2,
+    });
+    expect(await table.scan(3, 6)).toEqual(rows.slice(3, 6));
+    expect(await table.scan(3, 6, { minInclusive: false, maxInclusive: true })).toEqual(rows.slice(4, 7));
+    expect((await table.scan(undefined, 15, { reverse: true, limit: 3 })).map((r) => r.t)).toEqual([14, 13, 12]);
+    expect(await table.scan(18)).toEqual(rows.slice(18));
+  });
+});
+
+describe("Table.update", () => {
+  it("overwrites non-order columns of a row and persists", async () => {
+    const store = new MemoryStore();
+    const opts = { segmentCount: 4, chunkCount: 2 };
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, opts) },
+      undefined,
+      opts,
+    );
+    await table.insert([
+      { id: 3, name: "c", score: 3 },
+      { id: 1, name: "a", score: 1 },
+      { id: 2, name: "b", score: 2 },
+    ]);
+    await table.update(1, { name: "B", score: null, tag: "new" });
+    expect(await table.range(0)).toEqual([
+      { id: 1, name: "a", score: 1 },
+      { id: 2, name: "B", tag: "new" },
+      { id: 3, name: "c", score: 3 },
+    ]);
+
+    await table.flush("t.meta");
+    const reloaded = new Table<number>(store, table.getMeta());
+    expect(await reloaded.get(1)).toEqual({ name: "B", tag: "new" });
+
+    // New column stays aligned with later inserts
+    await reloaded.insert([{ id: 0, name: "z", tag: "first" }]);
+    expect((await reloaded.range(0)).map((r) => r.tag)).toEqual(["first", undefined, "new", undefined]);
+  });
+
+  it("rejects order key changes and out-of-range rows", async () => {
+    const store = new MemoryStore();
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, { segmentCount: 4, chunkCount: 2 }) },
+    );
+    await table.insert([{ id: 1, name: "a" }]);
+    await expect(table.update(0, { id: 5 })).rejects.toThrow('Cannot update order key "id"');
+    await expect(table.update(1, { name: "x" })).rejects.toThrow("out of range");
+    expect(await table.get(0)).toEqual({ name: "a" });
+  });
+});
+
+describe("Table.rows", () => {
+  it("streams the same rows as range, with offset and limit", async () => {
+    const store = new MemoryStore();
+    const opts = { segmentCount: 4, chunkCount: 2 };
+    const table = new Table<number>(
+      store,
+      { key: "id", column: new OrderedColumn<number>(store, opts) },
+      undefined,
+      opts,
+    );
+    const input = Array.from({ length: 30 }, (_, i) => ({ id: 29 - i, name: `n${i}`, ...(i % 3 ? { x: i } : {}) }));
+    await table.insert(input);
+
+    const collect = async (offset?: number, limit?: number) => {
+      const out: Array<Record<string, unknown>> = [];
+      for await (const row of table.rows(offset, limit)) out.push(row);
+      return out;
+    };
+    expect(await collect()).toEqual(await table.range(0));
+    expect(await collect(7, 11)).toEqual(await table.range(7, 11));
+    expect(await collect(100)).toEqual([]);
+
+    // Stopping early is fine
+    let seen = 0;
+    for await (const _ of table.rows()) if (++seen === 3) break;
+    expect(seen).toBe(3);
+  });
+});
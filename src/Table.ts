@@ -5,10 +5,23 @@ import {
   type OrderedColumnInterface,
 } from "./Column";
 import type { IStore } from "./Store";
+import type { ScanOptions, UniqueMode } from "./FenwickOrderedList";
 import type {
   FenwickBaseMeta,
   BaseSegment,
+  CacheLimits,
+  CacheStats,
+  CompactOptions,
 } from "./FenwickBase";
+import { DEFAULT_COMPARATOR, getComparator } from "./Comparator";
+import { matches, mayMatch, predicateColumns, prefixSuccessor, type Predicate } from "./Predicate";
+import {
+  compareGroupKeys,
+  createAccumulator,
+  metricColumns,
+  type Accumulator,
+  type Metric,
+} from "./Aggregate";
 
 type Row = Record<string, unknown>;
 
@@ -20,16 +33,71 @@ type ColumnBuckets = {
 };
 
 export type TableMeta<T> = {
-  defaults: { segmentCount: number; chunkCount: number };
+  // codec: chunk codec id for newly created columns (see ChunkCodec)
+  defaults: { segmentCount: number; chunkCount: number; codec?: string };
   order: {
     key: string;
     // Optional for backward compatibility; when present, accelerates rehydrate
     valueType?: ValueType;
+    // Registered comparator name (see Comparator); absent means the default
+    comparator?: string;
+    // Component columns of a composite key; `key` is then their joined name
+    keys?: string[];
     meta: FenwickBaseMeta<T, BaseSegment<T> & { min: T; max: T }>;
   };
   columns: ColumnBuckets;
 };
 
+export type ProjectionOptions = {
+  // Non-order columns to read; every column when omitted
+  columns?: string[];
+  // Include the order key, or every component of a composite one
+  // (default: true for range, false for get)
+  orderKey?: boolean;
+};
+
+export type QueryOptions<T> = {
+  where?: Predicate;
+  // Order key bounds, [min, max) unless the inclusivity flags say otherwise
+  orderRange?: { min?: T; max?: T } & Pick<ScanOptions, "minInclusive" | "maxInclusive">;
+  // Both count matching rows
+  limit?: number;
+  offset?: number;
+};
+
+export type AggregateOptions = {
+  // Columns whose value combinations form the groups; none gives one group
+  groupBy?: string | string[];
+  // Output field name -> metric
+  metrics: Record<string, Metric>;
+  where?: Predicate;
+};
+
+export type HistogramOptions = {
+  // Order key range [from, to)
+  from: number;
+  to: number;
+  // Width in ms or as "<n>s", "<n>m", "<n>h", "<n>d"; buckets align to multiples of it
+  bucket: number | string;
+  metrics?: Record<string, Metric>;
+};
+
+const BUCKET_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+function bucketWidth(bucket: number | string): number {
+  const match = typeof bucket === "string" ? /^(\d+)([smhd])$/.exec(bucket) : undefined;
+  const width = match ? Number(match[1]) * BUCKET_UNITS[match[2] as string]! : bucket;
+  if (typeof width !== "number" || !(width > 0) || !Number.isFinite(width)) {
+    throw new Error(`Invalid bucket ${JSON.stringify(bucket)}`);
+  }
+  return width;
+}
+
 export class Table<T> {
   private columns!: Record<
     string,
@@ -38,34 +106,38 @@ export class Table<T> {
   >;
   private defaultsegmentCount!: number;
   private defaultchunkCount!: number;
+  private defaultCodec?: string;
   private meta?: TableMeta<T>; // committed snapshot, only updated after successful flush
   private store: IStore;
   private order!: { key: string; column: OrderedColumnInterface<T> };
+  // Set for composite order keys; each component is also stored as a column
+  private orderKeys?: string[];
   private orderValueType: ValueType = "number";
+  private cacheLimits?: CacheLimits;
 
   // Overloads: construct from meta OR from explicit columns
   constructor(store: IStore, meta: TableMeta<T>);
   constructor(
     store: IStore,
-    order: { key: string; column: OrderedColumnInterface<T> },
+    order: { key: string | string[]; column: OrderedColumnInterface<T> },
     columns?: Record<
       string,
       | { type: "string"; column: IndexedColumnInterface<string> }
       | { type: "number"; column: IndexedColumnInterface<number> }
     >,
-    opts?: { segmentCount?: number; chunkCount?: number },
+    opts?: { segmentCount?: number; chunkCount?: number; codec?: string },
   );
   constructor(
     store: IStore,
     orderOrMeta:
       | TableMeta<T>
-      | { key: string; column: OrderedColumnInterface<T> },
+      | { key: string | string[]; column: OrderedColumnInterface<T> },
     columns?: Record<
       string,
       | { type: "string"; column: IndexedColumnInterface<string> }
       | { type: "number"; column: IndexedColumnInterface<number> }
     >,
-    opts?: { segmentCount?: number; chunkCount?: number },
+    opts?: { segmentCount?: number; chunkCount?: number; codec?: string },
   ) {
     this.store = store;
     if (Table.isTableMeta(orderOrMeta)) {
@@ -74,7 +146,14 @@ export class Table<T> {
     }
 
     // Legacy signature
-    this.order = orderOrMeta as { key: string; column: OrderedColumnInterface<T> };
+    const { key, column } = orderOrMeta as { key: string | string[]; column: OrderedColumnInterface<T> };
+    if (Array.isArray(key)) {
+      if ((column.getMeta() as { comparator?: string }).comparator !== "tuple") {
+        throw new Error(`Composite order key needs an order column using the "tuple" comparator`);
+      }
+      this.orderKeys = [...key];
+    }
+    this.order = { key: Array.isArray(key) ? key.join(",") : key, column };
     this.columns = {};
     if (columns) {
       for (const [key, spec] of Object.entries(columns)) {
@@ -92,6 +171,118 @@ export class Table<T> {
     }
     this.defaultsegmentCount = opts?.segmentCount ?? 8192;
     this.defaultchunkCount = opts?.chunkCount ?? 0;
+    this.defaultCodec = opts?.codec;
+  }
+
+  /**
+   * Reopens a table from a meta snapshot previously committed with `flush`.
+   * Returns undefined when no meta exists under `metaKey`.
+   */
+  static async load<T>(store: IStore, metaKey: string): Promise<Table<T> | undefined> {
+    const meta = await store.get<TableMeta<T>>(metaKey);
+    if (!meta) return undefined;
+    return new Table<T>(store, meta);
+  }
+
+  /**
+   * Builds a new table from rows already sorted by `key`, loading every
+   * column bottom-up instead of inserting row by row. Nothing is persisted
+   * until `flush`.
+   */
+  static async fromSortedRows<T>(
+    store: IStore,
+    key: string | string[],
+    rows: Row[],
+    opts?: {
+      segmentCount?: number;
+      chunkCount?: number;
+      codec?: string;
+      comparator?: string;
+      unique?: UniqueMode;
+    },
+  ): Promise<Table<T>> {
+    const table = new Table<T>(
+      store,
+      {
+        key,
+        column: new OrderedColumn<T>(
+          store,
+          {
+            segmentCount: opts?.segmentCount ?? 8192,
+            chunkCount: opts?.chunkCount ?? 0,
+            ...(opts?.codec ? { codec: opts.codec } : {}),
+            ...(opts?.unique ? { unique: opts.unique } : {}),
+          },
+          opts?.comparator ?? (Array.isArray(key) ? "tuple" : undefined),
+        ),
+      },
+      undefined,
+      { segmentCount: opts?.segmentCount, chunkCount: opts?.chunkCount, codec: opts?.codec },
+    );
+    await table.loadSorted(rows);
+    return table;
+  }
+
+  // Bulk path behind fromSortedRows; the table must be empty
+  private async loadSorted(rows: Row[]): Promise<void> {
+    const keys: T[] = new Array<T>(rows.length);
+    for (let i = 0; i < rows.length; i++) keys[i] = this.orderValue(rows[i] as Row);
+    // Validates the order before any other column is touched
+    await this.order.column.bulkLoad(keys);
+
+    const types = new Map<string, ValueType>();
+    for (const row of rows) {
+      for (const [k, raw] of Object.entries(row)) {
+        if (k === this.order.key || types.has(k)) continue;
+        if (raw === null || raw === undefined) continue;
+        const t = typeof raw;
+        if (t !== "number" && t !== "string") {
+          throw new Error(`Unsupported column type for key "${k}": ${t}`);
+        }
+        types.set(k, t as ValueType);
+      }
+    }
+    for (const [k, vt] of types) {
+      const col = await this.ensureTypedColumn(k, vt);
+      const vals: Array<string | number> = new Array(rows.length);
+      for (let i = 0; i < rows.length; i++) {
+        const raw = (rows[i] as Row)[k];
+        vals[i] = (raw === null ? undefined : raw) as string | number;
+      }
+      await col.bulkLoad(vals);
+    }
+  }
+
+  /**
+   * Rows whose order key lies in [min, max). Composite keys take tuple
+   * bounds; a shorter tuple bounds by prefix (see `prefixEnd`). Undefined
+   * bounds and `opts` behave as in `FenwickOrderedList.scan`, so e.g. the
+   * latest 100 rows before t are `scan(undefined, t, { reverse: true, limit: 100 })`.
+   */
+  async scan(min?: T, max?: T, opts?: ScanOptions): Promise<Row[]> {
+    const { start, end } = await this.order.column.scanBounds(min, max, opts);
+    if (end <= start) return [];
+    const rows = await this.range(start, end - start);
+    return opts?.reverse ? rows.reverse() : rows;
+  }
+
+  // Order column value of a row: the key, or the tuple of composite components
+  private orderValue(row: Row): T {
+    const keys = this.orderKeys ?? [this.order.key];
+    const values = keys.map((key) => {
+      const value = row[key];
+      if (value === undefined) throw new Error(`Row is missing key ${key}`);
+      return value;
+    });
+    return (this.orderKeys ? values : values[0]) as T;
+  }
+
+  // Order key fields of a row; a composite key is split into its components
+  private orderEntry(value: T): Row {
+    if (!this.orderKeys) return { [this.order.key]: value };
+    const row: Row = {};
+    this.orderKeys.forEach((key, i) => (row[key] = (value as unknown[])[i]));
+    return row;
   }
 
   private async ensureTypedColumn(
@@ -101,20 +292,16 @@ export class Table<T> {
     const existing = this.columns[key];
     if (existing) return (existing as unknown as { col: IndexedColumnInterface<string | number> }).col;
     if (valueType === "number") {
-      const col = new IndexedColumn<number>(this.store, {
-        segmentCount: this.defaultsegmentCount,
-        chunkCount: this.defaultchunkCount,
-      });
+      const col = new IndexedColumn<number>(this.store, this.newColumnMeta());
+      if (this.cacheLimits) col.setCacheLimits(this.cacheLimits);
       this.columns[key] = { type: "number", col } as {
         type: "number";
         col: IndexedColumnInterface<number>;
       };
       return col as unknown as IndexedColumnInterface<string | number>;
     }
-    const col = new IndexedColumn<string>(this.store, {
-      segmentCount: this.defaultsegmentCount,
-      chunkCount: this.defaultchunkCount,
-    });
+    const col = new IndexedColumn<string>(this.store, this.newColumnMeta());
+    if (this.cacheLimits) col.setCacheLimits(this.cacheLimits);
     this.columns[key] = { type: "string", col } as {
       type: "string";
       col: IndexedColumnInterface<string>;
@@ -122,136 +309,177 @@ export class Table<T> {
     return col as unknown as IndexedColumnInterface<string | number>;
   }
 
+  private newColumnMeta(): { segmentCount: number; chunkCount: number; codec?: string } {
+    return {
+      segmentCount: this.defaultsegmentCount,
+      chunkCount: this.defaultchunkCount,
+      ...(this.defaultCodec ? { codec: this.defaultCodec } : {}),
+    };
+  }
+
+  /**
+   * Inserts rows. When the order column is unique (see `UniqueMode`), a row
+   * whose key is already stored is rejected, skipped or replaces the stored
+   * row, per the column's mode.
+   */
   async insert(rows: Row[]): Promise<void> {
+    await this.write(rows, this.order.column.uniqueMode());
+  }
+
+  /**
+   * Inserts rows, replacing any stored row with an equal key: its columns
+   * take the new row's values and those missing from it are cleared, so
+   * writing the same batch twice leaves the table unchanged.
+   */
+  async upsert(rows: Row[]): Promise<void> {
+    await this.write(rows, "replace");
+  }
+
+  private async write(rows: Row[], mode: UniqueMode | undefined): Promise<void> {
     if (!rows.length) return;
 
-    // 1) Compute order indexes once in input order
-    const indexes: number[] = new Array<number>(rows.length);
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i] as Row;
-      const value = row[this.order.key];
-      if (value === undefined) {
-        throw new Error(`Row is missing key ${this.order.key}`);
+    // 1) Type columns first seen in this batch before anything is modified
+    const newTypes = new Map<string, ValueType>();
+    for (const row of rows) {
+      for (const [k, raw] of Object.entries(row)) {
+        if (k === this.order.key || this.columns[k] || newTypes.has(k)) continue;
+        if (raw === null || raw === undefined) continue; // created once a concrete value shows up
+        const t = typeof raw;
+        if (t !== "number" && t !== "string") {
+          throw new Error(`Unsupported column type for key "${k}": ${t}`);
+        }
+        newTypes.set(k, t as ValueType);
       }
-      indexes[i] = await this.order.column.insert(value as T);
     }
 
-    // 2) Snapshot pre-existing typed columns (excluding order key)
-    const preExistingEntries: Array<[
-      string,
-      { type: ValueType; col: IndexedColumnInterface<string | number> },
-    ]> = Object.entries(this.columns)
-      .filter(([key]) => key !== this.order.key)
-      .map(([key, spec]) => [key, spec as unknown as { type: ValueType; col: IndexedColumnInterface<string | number> }]);
-
-    // 3) Bulk insert per pre-existing column using computed indexes
-    for (const [key, spec] of preExistingEntries) {
-      const isNumber = (spec as unknown as { type: ValueType }).type === "number";
-      const col = (spec as unknown as { col: IndexedColumnInterface<string | number> }).col;
-      const vals: Array<string | number | undefined> = new Array(rows.length);
+    // 2) Set aside rows whose key is already stored
+    const orderValues: T[] = new Array<T>(rows.length);
+    for (let i = 0; i < rows.length; i++) orderValues[i] = this.orderValue(rows[i] as Row);
+    let fresh = rows.map((_, i) => i);
+    const replaced: number[] = [];
+    if (mode) {
+      // One lookup at a time, like insertMany on a unique column
+      const existing: number[] = [];
+      for (const v of orderValues) existing.push(await this.order.column.indexOf(v));
+      fresh = [];
       for (let i = 0; i < rows.length; i++) {
-        const row = rows[i] as Row;
-        const present = Object.prototype.hasOwnProperty.call(row, key);
-        const raw = present ? row[key] : undefined;
-        vals[i] = raw === null ? undefined : (raw as unknown as (string | number | undefined));
-      }
-      // Prefer bulk path if available
-      if (typeof (col as any).insertManyAt === "function") {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-        await (col as any).insertManyAt(indexes, vals);
-      } else {
-        for (let i = 0; i < rows.length; i++) {
-          const v = vals[i];
-          const idx = indexes[i] as number;
-          if (isNumber)
-            // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-            await (col as unknown as IndexedColumnInterface<number>).insertAt(idx, (v as unknown) as number);
-          else
-            // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-            await (col as unknown as IndexedColumnInterface<string>).insertAt(idx, (v as unknown) as string);
-        }
+        if ((existing[i] as number) < 0) fresh.push(i);
+        else if (mode === "reject") {
+          throw new Error(`Duplicate value ${String(orderValues[i])} for key "${this.order.key}"`);
+        } else if (mode === "replace") replaced.push(i);
       }
     }
+    // Within the batch, too, the last row for a key wins
+    if (mode === "replace" && fresh.length > 1) {
+      const col = this.order.column;
+      const cmp = (a: number, b: number) => col.compare(orderValues[a] as T, orderValues[b] as T);
+      const sorted = [...fresh].sort((a, b) => cmp(a, b) || a - b);
+      fresh = sorted
+        .filter((i, k) => k === sorted.length - 1 || cmp(i, sorted[k + 1] as number) !== 0)
+        .sort((a, b) => a - b);
+    }
 
-    // 4) Handle columns first seen in this batch, in a single pass preserving row order
-    const preExistingKeys = new Set(preExistingEntries.map(([k]) => k));
-    const candidateNewKeys = new Set<string>();
-    for (const row of rows) {
-      for (const k of Object.keys(row)) {
-        if (k === this.order.key) continue;
-        if (preExistingKeys.has(k)) continue;
-        candidateNewKeys.add(k);
-      }
+    // 3) Insert the order values in one batch; indexes are final row positions.
+    // A unique column drops duplicates within the batch (index -1)
+    const before = this.order.column.length();
+    const positions = await this.order.column.insertMany(fresh.map((i) => orderValues[i] as T));
+    const added: Row[] = [];
+    const indexes: number[] = [];
+    fresh.forEach((i, k) => {
+      if ((positions[k] as number) < 0) return;
+      added.push(rows[i] as Row);
+      indexes.push(positions[k] as number);
+    });
+
+    // 4) New columns start out holding undefined for every earlier row
+    for (const [k, vt] of newTypes) {
+      await Table.padColumn(await this.ensureTypedColumn(k, vt), before);
     }
 
-    const createdNew = new Map<string, { type: ValueType; col: IndexedColumnInterface<string | number> }>();
+    // 5) Bulk insert per column using the computed indexes
+    for (const [key, spec] of Object.entries(this.columns)) {
+      if (key === this.order.key) continue;
+      const col = (spec as unknown as { col: IndexedColumnInterface<string | number> }).col;
+      const vals: Array<string | number | undefined> = new Array(added.length);
+      for (let i = 0; i < added.length; i++) {
+        const raw = (added[i] as Row)[key];
+        vals[i] = raw === null ? undefined : (raw as string | number | undefined);
+      }
+      await col.insertManyAt(indexes, vals);
+    }
 
-    for (let i = 0; i < rows.length; i++) {
+    // 6) Overwrite every stored row with a replaced key, in input order so the
+    // last one wins
+    const orderKeys = new Set(this.orderKeys ?? [this.order.key]);
+    for (const i of replaced) {
       const row = rows[i] as Row;
-      const idx = indexes[i] as number;
-
-      // 4a) For already created new columns, insert row value or undefined to maintain alignment
-      for (const [k, spec] of createdNew) {
-        const isNum = spec.type === "number";
-        const has = Object.prototype.hasOwnProperty.call(row, k);
-        const raw = has ? row[k] : undefined;
-        const v = raw === null ? undefined : (raw as unknown);
-        if (typeof (spec.col as any).insertManyAt === "function") {
-          // fallback to single insert path if bulk not used in this micro-step
-          if (isNum)
-            // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-            await (spec.col as unknown as IndexedColumnInterface<number>).insertAt(idx, (v as unknown) as number);
-          else
-            // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-            await (spec.col as unknown as IndexedColumnInterface<string>).insertAt(idx, (v as unknown) as string);
-        } else {
-          if (isNum)
-            // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-            await (spec.col as unknown as IndexedColumnInterface<number>).insertAt(idx, (v as unknown) as number);
-          else
-            // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-            await (spec.col as unknown as IndexedColumnInterface<string>).insertAt(idx, (v as unknown) as string);
-        }
+      const patch: Row = {};
+      for (const key of new Set([...Object.keys(this.columns), ...Object.keys(row)])) {
+        if (!orderKeys.has(key)) patch[key] = row[key];
       }
+      const value = orderValues[i] as T;
+      const { start, end } = await this.order.column.scanBounds(value, value, { maxInclusive: true });
+      for (let index = start; index < end; index++) await this.update(index, patch);
+    }
+  }
 
-      // 4b) Create columns newly seen on this row and insert their values
-      for (const k of Object.keys(row)) {
-        if (k === this.order.key) continue;
-        if (!candidateNewKeys.has(k)) continue;
-        if (createdNew.has(k)) continue;
-        const raw = row[k];
-        if (raw === null || raw === undefined) continue; // defer creation until we see a concrete value
-        const t = typeof raw;
-        if (t !== "number" && t !== "string") {
-          throw new Error(`Unsupported column type for key "${k}": ${t}`);
-        }
-        const vt = t as ValueType;
-        const col = await this.ensureTypedColumn(k, vt);
-        const entry = { type: vt, col } as unknown as { type: ValueType; col: IndexedColumnInterface<string | number> };
-        createdNew.set(k, entry);
-        if (vt === "number")
-          // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-          await (col as unknown as IndexedColumnInterface<number>).insertAt(idx, (raw as unknown) as number);
-        else
-          // eslint-disable-next-line @typescript-eslint/no-confusing-void-expression
-          await (col as unknown as IndexedColumnInterface<string>).insertAt(idx, (raw as unknown) as string);
+  /**
+   * Overwrites the given non-order columns of the row at `index`. Columns not
+   * seen before are created and backfilled with undefined. The order key can't
+   * be updated since that would move the row.
+   */
+  async update(index: number, patch: Row): Promise<void> {
+    const total = this.order.column.length();
+    if (!Number.isInteger(index) || index < 0 || index >= total) {
+      throw new Error(`Row index ${index} out of range [0, ${total})`);
+    }
+    for (const key of this.orderKeys ?? [this.order.key]) {
+      if (Object.prototype.hasOwnProperty.call(patch, key)) {
+        throw new Error(`Cannot update order key "${key}"`);
       }
     }
+    await Promise.all(
+      Object.entries(patch).map(async ([key, raw]) => {
+        const value = raw === null ? undefined : (raw as string | number | undefined);
+        let col = (this.columns[key] as unknown as { col: IndexedColumnInterface<string | number> } | undefined)?.col;
+        if (!col) {
+          if (value === undefined) return; // nothing to store yet
+          const t = typeof value;
+          if (t !== "number" && t !== "string") {
+            throw new Error(`Unsupported column type for key "${key}": ${t}`);
+          }
+          col = await this.ensureTypedColumn(key, t as ValueType);
+        }
+        // Keep the column aligned with every row so later inserts land correctly
+        await Table.padColumn(col, total);
+        await col.setAt(index, value as string | number);
+      }),
+    );
   }
 
-  async get(index: number): Promise<Row> {
-    const typedEntries: Array<[
-      string,
-      IndexedColumnInterface<string | number>,
-    ]> = Object.entries(this.columns)
-      .filter(([key]) => key !== this.order.key)
-      .map(([key, spec]) => [key, (spec as unknown as { col: IndexedColumnInterface<string | number> }).col]);
+  // Appends undefined values until the column holds at least `length` values
+  private static async padColumn(
+    col: IndexedColumnInterface<string | number>,
+    length: number,
+  ): Promise<void> {
+    const start = col.length();
+    if (start >= length) return;
+    const indexes = Array.from({ length: length - start }, (_, i) => start + i);
+    await col.insertManyAt(indexes, new Array(indexes.length).fill(undefined));
+  }
 
-    const values = await Promise.all(
-      typedEntries.map(([, column]) => column.get(index)),
-    );
+  /**
+   * Non-order columns of the row at `index`; `opts` limits the columns read
+   * and can add the order key.
+   */
+  async get(index: number, opts?: ProjectionOptions): Promise<Row> {
+    const typedEntries = this.projectedColumns(opts);
+    const [orderValues, values] = await Promise.all([
+      opts?.orderKey ? this.order.column.range(index, index + 1) : Promise.resolve([] as T[]),
+      Promise.all(typedEntries.map(([, column]) => column.get(index))),
+    ]);
 
-    const row: Row = {};
+    const row: Row = orderValues.length > 0 ? this.orderEntry(orderValues[0] as T) : {};
     for (let i = 0; i < typedEntries.length; i++) {
       const key = typedEntries[i]![0];
       const v = values[i];
@@ -260,37 +488,425 @@ export class Table<T> {
     return row;
   }
 
-  async range(offset?: number, limit?: number): Promise<Row[]> {
+  /**
+   * Rows [offset, offset + limit) with the order key and every column, or
+   * only the chunks of the columns in `opts` (and no order key when
+   * `orderKey` is false).
+   */
+  async range(offset?: number, limit?: number, opts?: ProjectionOptions): Promise<Row[]> {
+    const { len, orderValues, columns } = await this.readRange(offset, limit, opts);
+    const rows: Row[] = new Array<Row>(len);
+    for (let i = 0; i < len; i++) {
+      const row: Row = orderValues ? this.orderEntry(orderValues[i] as T) : {};
+      for (const [key, values] of columns) {
+        const v = values[i];
+        if (v !== undefined) row[key] = v;
+      }
+      rows[i] = row;
+    }
+    return rows;
+  }
+
+  /**
+   * Columnar variant of `range` for callers that don't need row objects: one
+   * array per column, aligned by position, with undefined for missing values.
+   * The order key, or each composite component, is included under its name
+   * unless `orderKey` is false.
+   */
+  async rangeColumns(
+    offset?: number,
+    limit?: number,
+    opts?: ProjectionOptions,
+  ): Promise<Record<string, unknown[]>> {
+    const { orderValues, columns } = await this.readRange(offset, limit, opts);
+    const out: Record<string, unknown[]> = {};
+    if (orderValues && this.orderKeys) {
+      this.orderKeys.forEach((key, i) => (out[key] = orderValues.map((v) => (v as unknown[])[i])));
+    } else if (orderValues) {
+      out[this.order.key] = orderValues;
+    }
+    for (const [key, values] of columns) out[key] = values;
+    return out;
+  }
+
+  // One range read per column, each loading its segments in parallel
+  private async readRange(
+    offset: number | undefined,
+    limit: number | undefined,
+    opts: ProjectionOptions | undefined,
+  ): Promise<{ len: number; orderValues?: T[]; columns: Array<[string, unknown[]]> }> {
+    const a = Math.max(0, offset ?? 0);
+    const b = Math.min(a + (limit ?? Number.POSITIVE_INFINITY), this.order.column.length());
+    const len = Math.max(0, b - a);
+    const withKey = opts?.orderKey ?? true;
+    const entries = this.projectedColumns(opts);
+    const [orderValues, values] = await Promise.all([
+      withKey ? this.order.column.range(a, b) : Promise.resolve(undefined),
+      Promise.all(entries.map(([, column]) => column.range(a, b))),
+    ]);
+    const columns = entries.map(([key], c): [string, unknown[]] => {
+      const column: unknown[] = values[c] as unknown[];
+      // Columns shorter than the order column read as undefined past their end
+      while (column.length < len) column.push(undefined);
+      return [key, column];
+    });
+    return { len, orderValues, columns };
+  }
+
+  // Non-order columns selected by `opts.columns`, all when it is absent
+  private projectedColumns(opts?: ProjectionOptions): Array<[string, IndexedColumnInterface<string | number>]> {
+    const wanted = opts?.columns ? new Set(opts.columns) : undefined;
+    return Object.entries(this.columns)
+      .filter(([key]) => key !== this.order.key && (!wanted || wanted.has(key)))
+      .map(([key, spec]) => [key, (spec as unknown as { col: IndexedColumnInterface<string | number> }).col]);
+  }
+
+  /**
+   * Streams rows in index order starting at `offset`. Rows are produced one
+   * order-column segment at a time, so memory stays bounded by the segment
+   * size rather than the result size.
+   */
+  async *rows(offset?: number, limit?: number): AsyncGenerator<Row> {
     const a = Math.max(0, offset ?? 0);
     const b = a + (limit ?? Number.POSITIVE_INFINITY);
 
-    const orderValues = await this.order.column.range(a, b);
+    const typedEntries: Array<[
+      string,
+      IndexedColumnInterface<string | number>,
+    ]> = Object.entries(this.columns)
+      .filter(([key]) => key !== this.order.key)
+      .map(([key, spec]) => [key, (spec as unknown as { col: IndexedColumnInterface<string | number> }).col]);
 
+    let pos = a;
+    for await (const orderValues of this.order.column.iterate(a, b)) {
+      const len = orderValues.length;
+      const columnValues = await Promise.all(
+        typedEntries.map(([, column]) => column.range(pos, pos + len)),
+      );
+      for (let i = 0; i < len; i++) {
+        const row: Row = this.orderEntry(orderValues[i] as T);
+        for (let c = 0; c < typedEntries.length; c++) {
+          const v = columnValues[c]![i];
+          if (v !== undefined) row[typedEntries[c]![0]] = v as unknown as T;
+        }
+        yield row;
+      }
+      pos += len;
+    }
+  }
+
+  /**
+   * Rows matching `where` within `orderRange`, in order. Conditions on a
+   * single order key narrow the scanned index window first (when the column
+   * sorts like the predicates compare). The rest is evaluated one
+   * order-column segment at a time: segments whose column stats rule out a
+   * match are skipped unread, and the remaining columns are only read for
+   * segments with matches.
+   */
+  async query(opts: QueryOptions<T> = {}): Promise<Row[]> {
+    const { where, orderRange } = opts;
+    const bounds = await this.order.column.scanBounds(orderRange?.min, orderRange?.max, orderRange);
+    const window = await this.predicateWindow(where);
+    const start = Math.max(bounds.start, window.start);
+    const end = Math.min(bounds.end, window.end);
+    const limit = opts.limit ?? Number.POSITIVE_INFINITY;
+    let skip = opts.offset ?? 0;
+    const out: Row[] = [];
+    if (end <= start || limit <= 0) return out;
+
+    const needed = where ? predicateColumns(where) : new Set<string>();
     const typedEntries: Array<[
       string,
       IndexedColumnInterface<string | number>,
     ]> = Object.entries(this.columns)
       .filter(([key]) => key !== this.order.key)
       .map(([key, spec]) => [key, (spec as unknown as { col: IndexedColumnInterface<string | number> }).col]);
+    const filterEntries = typedEntries.filter(([key]) => needed.has(key));
+    const restEntries = typedEntries.filter(([key]) => !needed.has(key));
+    const fill = async (rows: Row[], entries: typeof typedEntries, pos: number) => {
+      const columnValues = await Promise.all(
+        entries.map(([, column]) => column.range(pos, pos + rows.length)),
+      );
+      for (let i = 0; i < rows.length; i++) {
+        for (let c = 0; c < entries.length; c++) {
+          const v = columnValues[c]![i];
+          if (v !== undefined) rows[i]![entries[c]![0]] = v;
+        }
+      }
+    };
 
-    const len = orderValues.length;
-    const rows: Row[] = new Array<Row>(len);
-    for (let i = 0; i < len; i++) {
-      rows[i] = { [this.order.key]: orderValues[i] as unknown as T } as Row;
+    let pos = start;
+    for await (const orderValues of this.order.column.iterate(start, end)) {
+      const batchStart = pos;
+      pos += orderValues.length;
+      if (where && !this.batchMayMatch(where, batchStart, pos)) continue;
+      const rows = orderValues.map((v) => this.orderEntry(v));
+      await fill(rows, filterEntries, batchStart);
+      const hits: Row[] = [];
+      for (const row of rows) {
+        if (where && !matches(where, row)) continue;
+        if (skip > 0) skip--;
+        else if (out.length + hits.length < limit) hits.push(row);
+      }
+      if (hits.length > 0) {
+        await fill(rows, restEntries, batchStart);
+        out.push(...hits);
+      }
+      if (out.length >= limit) break;
     }
-    // Fetch column values aligned by absolute index a+i
-    await Promise.all(
-      typedEntries.map(async ([key, column]) => {
-        const values = await Promise.all(
-          Array.from({ length: len }, (_, i) => column.get(a + i)),
+    return out;
+  }
+
+  /**
+   * One row per group with the group's `groupBy` values and its metrics,
+   * sorted by group values (missing first). Column values are read and
+   * folded one order-column segment at a time without building rows;
+   * `where` narrows the order key window and skips segments as in `query`.
+   */
+  async aggregate(opts: AggregateOptions): Promise<Row[]> {
+    const groupBy = opts.groupBy === undefined ? [] : ([] as string[]).concat(opts.groupBy);
+    const metrics = Object.entries(opts.metrics);
+    const { where } = opts;
+    const needed = metricColumns(opts.metrics, new Set(groupBy));
+    if (where) predicateColumns(where, needed);
+
+    const groups = new Map<string, { key: unknown[]; accs: Accumulator[] }>();
+    const groupFor = (key: unknown[]) => {
+      const id = JSON.stringify(key);
+      let group = groups.get(id);
+      if (!group) {
+        group = { key, accs: metrics.map(([, metric]) => createAccumulator(metric)) };
+        groups.set(id, group);
+      }
+      return group;
+    };
+
+    const { start, end } = await this.predicateWindow(where);
+    let pos = start;
+    for await (const orderValues of this.order.column.iterate(start, end)) {
+      if (where && !this.batchMayMatch(where, pos, pos + orderValues.length)) {
+        pos += orderValues.length;
+        continue;
+      }
+      const batch = await this.readBatch(needed, orderValues, pos);
+      const scratch: Row = {};
+      for (let i = 0; i < orderValues.length; i++) {
+        if (where) {
+          for (const [name, values] of batch) scratch[name] = values[i];
+          if (!matches(where, scratch)) continue;
+        }
+        const group = groupFor(groupBy.map((name) => batch.get(name)![i] ?? null));
+        for (let m = 0; m < metrics.length; m++) {
+          const column = metrics[m]![1].column;
+          group.accs[m]!.add(column === undefined ? undefined : batch.get(column)![i]);
+        }
+      }
+      pos += orderValues.length;
+    }
+    // Like SQL, an ungrouped aggregate always yields one row
+    if (groupBy.length === 0) groupFor([]);
+
+    return [...groups.values()]
+      .sort((a, b) => compareGroupKeys(a.key, b.key))
+      .map((group) => {
+        const row: Row = {};
+        groupBy.forEach((name, i) => {
+          if (group.key[i] !== null) row[name] = group.key[i];
+        });
+        metrics.forEach(([name], m) => (row[name] = group.accs[m]!.result()));
+        return row;
+      });
+  }
+
+  /**
+   * One row per bucket of a numeric order key over [from, to), empty buckets
+   * included: `{ start, count, ...metrics }`, where `start` is the bucket's
+   * aligned start. Bucket boundaries are order key lookups, so counts come
+   * from index arithmetic alone; `sum`, `avg` and column counts over number
+   * columns use the columns' range aggregates, other metrics read values.
+   */
+  async histogram(opts: HistogramOptions): Promise<Row[]> {
+    if (!this.canPruneOrderKey()) {
+      throw new Error("histogram needs a single order key compared with < and >");
+    }
+    const width = bucketWidth(opts.bucket);
+    const starts: number[] = [];
+    if (opts.from < opts.to) {
+      for (let t = Math.floor(opts.from / width) * width; t < opts.to; t += width) starts.push(t);
+    }
+    // Boundaries clamped to [from, to); bounds[k] is the first row of bucket k.
+    // Looked up one at a time so a cache limit holds across many buckets
+    const bounds: number[] = [];
+    for (const t of [...starts, opts.to]) {
+      bounds.push(await this.order.column.getIndex(Math.max(opts.from, Math.min(t, opts.to)) as T));
+    }
+    const out: Row[] = starts.map((start, k) => ({
+      start,
+      count: (bounds[k + 1] as number) - (bounds[k] as number),
+    }));
+    if (!opts.metrics || starts.length === 0) return out;
+
+    const folded: Array<[string, Metric]> = [];
+    for (const [name, metric] of Object.entries(opts.metrics)) {
+      const spec = metric.column === undefined ? undefined : this.columns[metric.column];
+      if (metric.op === "count" && metric.column === undefined) {
+        for (const row of out) row[name] = row.count;
+      } else if (spec?.type === "number" && (metric.op === "sum" || metric.op === "avg" || metric.op === "count")) {
+        const field = metric.op;
+        const aggregates = await Promise.all(
+          starts.map((_, k) => spec.col.aggregate(bounds[k] as number, bounds[k + 1] as number)),
         );
-        for (let i = 0; i < len; i++) {
-          const v = values[i];
-          if (v !== undefined) rows[i]![key] = v as unknown as T;
+        out.forEach((row, k) => (row[name] = aggregates[k]![field]));
+      } else {
+        folded.push([name, metric]);
+      }
+    }
+    if (folded.length === 0) return out;
+
+    // Remaining metrics fold the values of each bucket, segment by segment
+    const needed = metricColumns(Object.fromEntries(folded));
+    const accs = starts.map(() => folded.map(([, metric]) => createAccumulator(metric)));
+    const first = bounds[0] as number;
+    const last = bounds[starts.length] as number;
+    let pos = first;
+    let k = 0;
+    for await (const orderValues of this.order.column.iterate(first, last)) {
+      const batch = await this.readBatch(needed, orderValues, pos);
+      for (let i = 0; i < orderValues.length; i++) {
+        while (pos + i >= (bounds[k + 1] as number)) k++;
+        for (let m = 0; m < folded.length; m++) {
+          accs[k]![m]!.add(batch.get(folded[m]![1].column as string)![i]);
         }
+      }
+      pos += orderValues.length;
+    }
+    out.forEach((row, b) => folded.forEach(([name], m) => (row[name] = accs[b]![m]!.result())));
+    return out;
+  }
+
+  // Index window worth scanning for `where`: all rows unless the order key narrows it
+  private async predicateWindow(where?: Predicate): Promise<{ start: number; end: number }> {
+    if (where && this.canPruneOrderKey()) return this.orderWindow(where);
+    return { start: 0, end: this.order.column.length() };
+  }
+
+  // Whether any row in [a, b) can match `where`, judged by column segment stats
+  private batchMayMatch(where: Predicate, a: number, b: number): boolean {
+    return mayMatch(where, (name) => {
+      if (name === this.order.key && !this.orderKeys) return undefined;
+      const col = (this.columns[name] as unknown as { col: IndexedColumnInterface<string | number> } | undefined)?.col;
+      // A column that was never written holds only missing values
+      if (!col) return { nullCount: b - a };
+      const stats = col.rangeStats(a, b);
+      const past = b - Math.max(a, col.length());
+      // Rows past the column's end read as missing
+      if (!stats || stats.nullCount === undefined || past <= 0) return stats;
+      return { ...stats, nullCount: stats.nullCount + past };
+    });
+  }
+
+  // Values of the named columns for rows [pos, pos + orderValues.length)
+  private async readBatch(
+    names: Set<string>,
+    orderValues: T[],
+    pos: number,
+  ): Promise<Map<string, unknown[]>> {
+    const batch = new Map<string, unknown[]>();
+    await Promise.all(
+      [...names].map(async (name) => {
+        if (name === this.order.key && !this.orderKeys) {
+          batch.set(name, orderValues);
+          return;
+        }
+        const col = (this.columns[name] as unknown as { col: IndexedColumnInterface<string | number> } | undefined)?.col;
+        batch.set(name, col ? await col.range(pos, pos + orderValues.length) : []);
       }),
     );
-    return rows;
+    return batch;
+  }
+
+  // Order key predicates map to index windows only if the column sorts like `<`/`>`
+  private canPruneOrderKey(): boolean {
+    if (this.orderKeys) return false;
+    const name = (this.order.column.getMeta() as { comparator?: string }).comparator;
+    return getComparator(name) === getComparator(DEFAULT_COMPARATOR);
+  }
+
+  // Index window holding every row whose order key can satisfy `pred`
+  private async orderWindow(pred: Predicate): Promise<{ start: number; end: number }> {
+    const col = this.order.column;
+    const all = { start: 0, end: col.length() };
+    if (pred.op === "and" || pred.op === "or") {
+      const windows = await Promise.all(pred.predicates.map((p) => this.orderWindow(p)));
+      if (pred.op === "and") {
+        return windows.reduce(
+          (w, x) => ({ start: Math.max(w.start, x.start), end: Math.min(w.end, x.end) }),
+          all,
+        );
+      }
+      const open = windows.filter((w) => w.end > w.start);
+      if (open.length === 0) return { start: 0, end: 0 };
+      return {
+        start: Math.min(...open.map((w) => w.start)),
+        end: Math.max(...open.map((w) => w.end)),
+      };
+    }
+    if (pred.op === "not" || pred.column !== this.order.key) return all;
+    const key = (v: unknown) => v as T;
+    switch (pred.op) {
+      case "eq":
+        return col.scanBounds(key(pred.value), key(pred.value), { maxInclusive: true });
+      case "in": {
+        if (pred.values.length === 0) return { start: 0, end: 0 };
+        const sorted = [...pred.values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        return col.scanBounds(key(sorted[0]), key(sorted[sorted.length - 1]), { maxInclusive: true });
+      }
+      case "lt":
+        return col.scanBounds(undefined, key(pred.value));
+      case "lte":
+        return col.scanBounds(undefined, key(pred.value), { maxInclusive: true });
+      case "gt":
+        return col.scanBounds(key(pred.value), undefined, { minInclusive: false });
+      case "gte":
+        return col.scanBounds(key(pred.value), undefined);
+      case "between":
+        return col.scanBounds(key(pred.min), key(pred.max));
+      case "startsWith":
+        return col.scanBounds(key(pred.prefix), key(prefixSuccessor(pred.prefix)));
+      case "isNull":
+        return { start: 0, end: 0 };
+    }
+  }
+
+  /**
+   * Applies cache budgets to every column (each column gets the full budget),
+   * including columns created or rehydrated later.
+   */
+  setCacheLimits(limits: CacheLimits): void {
+    this.cacheLimits = { ...limits };
+    this.order.column.setCacheLimits?.(this.cacheLimits);
+    for (const spec of Object.values(this.columns)) {
+      (spec as unknown as { col: IndexedColumnInterface<string | number> }).col.setCacheLimits?.(this.cacheLimits);
+    }
+  }
+
+  // Cache usage summed over all columns
+  getCacheStats(): CacheStats {
+    const total: CacheStats = { segments: 0, dirtySegments: 0, chunks: 0, bytes: 0, evictions: 0 };
+    const columns = [
+      this.order.column,
+      ...Object.values(this.columns).map((spec) => (spec as unknown as { col: IndexedColumnInterface<string | number> }).col),
+    ];
+    for (const col of columns) {
+      const stats = col.getCacheStats?.();
+      if (!stats) continue;
+      total.segments += stats.segments;
+      total.dirtySegments += stats.dirtySegments;
+      total.chunks += stats.chunks;
+      total.bytes += stats.bytes;
+      total.evictions += stats.evictions;
+    }
+    return total;
   }
 
   async flush(metaKey: string): Promise<void> {
@@ -305,6 +921,21 @@ export class Table<T> {
     this.meta = Table.cloneMeta(snapshot);
   }
 
+  /**
+   * Compacts the order column and every other column in one pass, then
+   * commits a new meta snapshot like `flush`. Chunks referenced by earlier
+   * snapshots are left in place for the garbage collector.
+   */
+  async compact(metaKey: string, opts?: CompactOptions): Promise<void> {
+    await Promise.all([
+      this.order.column.compact(opts),
+      ...Object.values(this.columns).map((spec) => (spec as unknown as { col: IndexedColumnInterface<string | number> }).col.compact(opts)),
+    ]);
+    const snapshot = this.buildMetaSnapshot();
+    await this.store.set<TableMeta<T>>(metaKey, snapshot);
+    this.meta = Table.cloneMeta(snapshot);
+  }
+
   getMeta(): TableMeta<T> {
     // If we have a committed snapshot, expose it
     return this.meta ?? this.buildMetaSnapshot();
@@ -336,14 +967,18 @@ export class Table<T> {
         >;
       }
     }
+    const comparator = (orderMeta as { comparator?: string }).comparator;
     return {
       defaults: {
         segmentCount: this.defaultsegmentCount,
         chunkCount: this.defaultchunkCount,
+        ...(this.defaultCodec ? { codec: this.defaultCodec } : {}),
       },
       order: {
         key: this.order.key,
         valueType: this.orderValueType,
+        ...(comparator ? { comparator } : {}),
+        ...(this.orderKeys ? { keys: [...this.orderKeys] } : {}),
         meta: orderMeta as unknown as FenwickBaseMeta<
           T,
           BaseSegment<T> & { min: T; max: T }
@@ -369,9 +1004,13 @@ export class Table<T> {
   private rehydrate(meta: TableMeta<T> | (TableMeta<T> & { columns: Record<string, { type: ValueType; meta: unknown }> })): void {
     this.defaultsegmentCount = meta.defaults.segmentCount ?? 8192;
     this.defaultchunkCount = meta.defaults.chunkCount ?? 0;
+    this.defaultCodec = meta.defaults.codec;
     // Determine order value type; optional for backward compat
     const orderType = (meta.order as { valueType?: ValueType }).valueType ?? this.orderValueType;
     this.orderValueType = orderType ?? this.orderValueType;
+    // Throws for names not registered in this process rather than sorting differently
+    const comparator =
+      meta.order.comparator ?? (meta.order.meta as { comparator?: string }).comparator;
     const orderColumn =
       (orderType ?? "number") === "number"
         ? (new OrderedColumn<number>(
@@ -380,6 +1019,7 @@ export class Table<T> {
             number,
             BaseSegment<number> & { min: number; max: number }
           >,
+          comparator,
         ) as unknown as OrderedColumnInterface<T>)
         : (new OrderedColumn<string>(
           this.store,
@@ -387,8 +1027,10 @@ export class Table<T> {
             string,
             BaseSegment<string> & { min: string; max: string }
           >,
+          comparator,
         ) as unknown as OrderedColumnInterface<T>);
     this.order = { key: meta.order.key, column: orderColumn };
+    this.orderKeys = meta.order.keys ? [...meta.order.keys] : undefined;
     this.columns = {};
     const anyMeta = meta as unknown as {
       columns:
@@ -451,6 +1093,7 @@ export class Table<T> {
         }
       }
     }
+    if (this.cacheLimits) this.setCacheLimits(this.cacheLimits);
     this.meta = Table.cloneMeta(meta as TableMeta<T>);
   }
 }
@@ -1,5 +1,9 @@
 export const DEFAULT_ORDER_KEY = "$time";
 export const DEFAULT_ORDER_KEY_TYPE: "number" | "string" = "number";
+// When set, tables are persisted to this directory instead of kept in memory
+export const STORE_DIR = process.env.TREEVECTOR_STORE_DIR;
+// Chunk codec for new tables; "binary" packs numbers/strings into typed buffers
+export const DEFAULT_CHUNK_CODEC = "binary";
 export const DEFAULT_SEGMENT_COUNT = 8192;
 // Target ~10 MiB per chunk for numeric data (8 bytes per number)
 const TARGET_CHUNK_BYTES = 10 * 1024 * 1024; // 10 MiB
@@ -65,3 +65,27 @@ describe("server handler", () => {
 });
 
 
+
+describe("server GET streaming", () => {
+    it("streams rows with offset and limit", async () => {
+        const rows = Array.from({ length: 50 }, (_, i) => ({ $time: 50 - i, n: i }));
+        const postRes = await post("/t5/p5/stream", rows);
+        expect(postRes.ok).toBeTrue();
+
+        const all = (await (await get("/t5/p5/stream")).json()) as any;
+        expect(all.ok).toBeTrue();
+        expect(all.rows.map((r: any) => r.$time)).toEqual(Array.from({ length: 50 }, (_, i) => i + 1));
+
+        const page = (await (await get("/t5/p5/stream?offset=10&limit=3")).json()) as any;
+        expect(page.rows).toEqual([
+            { $time: 11, n: 39 },
+            { $time: 12, n: 38 },
+            { $time: 13, n: 37 },
+        ]);
+    });
+
+    it("rejects invalid paging and unknown tables", async () => {
+        expect((await get("/t5/p5/stream?limit=-1")).status).toBe(400);
+        expect((await get("/t6/p6/missing")).status).toBe(404);
+    });
+});
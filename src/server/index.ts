@@ -1,17 +1,20 @@
 import { Hono } from "hono";
-import { Table, type TableMeta } from "../Table";
+import { Table } from "../Table";
 import { OrderedColumn } from "../Column";
-import { MemoryStore } from "../Store";
+import { MemoryStore, type IStore } from "../Store";
+import { FileStore } from "../FileStore";
 import {
     DEFAULT_ORDER_KEY,
     DEFAULT_ORDER_KEY_TYPE,
     DEFAULT_SEGMENT_COUNT,
     DEFAULT_CHUNK_COUNT,
+    DEFAULT_CHUNK_CODEC,
+    STORE_DIR,
 } from "./config";
 
 type Row = Record<string, unknown>;
 
-const store = new MemoryStore();
+const store: IStore = STORE_DIR ? await FileStore.open(STORE_DIR) : new MemoryStore();
 
 function getMetaKey(team: string, project: string, table: string): string {
     return `tables/${team}/${project}/${table}.meta`;
@@ -32,6 +35,42 @@ function inferOrderType(value: unknown): "number" | "string" {
     throw new Error(`Unsupported order value type: ${t}`);
 }
 
+function parseOptionalInt(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) {
+        throw new Error(`Query parameter "${name}" must be a non-negative integer`);
+    }
+    return n;
+}
+
+// Serializes { ok: true, rows: [...] } incrementally from a row iterator
+function streamRowsJson(rows: AsyncGenerator<Row>): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let started = false;
+    let first = true;
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (!started) {
+                started = true;
+                controller.enqueue(encoder.encode('{"ok":true,"rows":['));
+                return;
+            }
+            const { value, done } = await rows.next();
+            if (done) {
+                controller.enqueue(encoder.encode("]}"));
+                controller.close();
+                return;
+            }
+            controller.enqueue(encoder.encode((first ? "" : ",") + JSON.stringify(value)));
+            first = false;
+        },
+        async cancel() {
+            await rows.return(undefined);
+        },
+    });
+}
+
 export const app = new Hono();
 
 app.post("/:team/:project/:table", async (c) => {
@@ -52,12 +91,8 @@ app.post("/:team/:project/:table", async (c) => {
             return c.json({ ok: false, error: msg }, 400);
         }
 
-        const existingMeta = await store.get<TableMeta<any>>(metaKey);
-
-        let tbl: Table<any>;
-        if (existingMeta) {
-            tbl = new Table<any>(store, existingMeta);
-        } else {
+        let tbl: Table<any> | undefined = await Table.load<any>(store, metaKey);
+        if (!tbl) {
             const orderSample = rows[0]?.[orderKey];
             const orderType = inferOrderType(orderSample);
             if (orderType !== DEFAULT_ORDER_KEY_TYPE) {
@@ -66,6 +101,7 @@ app.post("/:team/:project/:table", async (c) => {
             const defaults = {
                 segmentCount: DEFAULT_SEGMENT_COUNT,
                 chunkCount: DEFAULT_CHUNK_COUNT,
+                codec: DEFAULT_CHUNK_CODEC,
             };
 
             if (orderType === "number") {
@@ -91,13 +127,16 @@ app.get("/:team/:project/:table", async (c) => {
     try {
         const { team, project, table } = c.req.param();
         const metaKey = getMetaKey(team, project, table);
-        const existingMeta = await store.get<TableMeta<any>>(metaKey);
-        if (!existingMeta) {
+        const offset = parseOptionalInt(c.req.query("offset"), "offset");
+        const limit = parseOptionalInt(c.req.query("limit"), "limit");
+        const tbl = await Table.load<any>(store, metaKey);
+        if (!tbl) {
             return c.json({ ok: false, error: "Table not found" }, 404);
         }
-        const tbl = new Table<any>(store, existingMeta);
-        const rows = await tbl.range(0);
-        return c.json({ ok: true, rows });
+        // Stream rows so large tables are never materialized in memory
+        return c.body(streamRowsJson(tbl.rows(offset, limit)), 200, {
+            "content-type": "application/json",
+        });
     } catch (err) {
         const message = err instanceof Error ? err.message : "Unknown error";
         return c.json({ ok: false, error: message }, 400);